@@ -93,6 +93,12 @@ const App: React.FC = () => {
     loadData();
   }, []);
 
+  // Dictionaries are written directly to storage by EnginesSection
+  useEffect(() => {
+    const unwatch = dictionariesStorage.watch(v => v && setDictionaries(v));
+    return () => unwatch();
+  }, []);
+
   // Sync state back to storage
   useEffect(() => { if (!isLoading) entriesStorage.setValue(entries); }, [entries, isLoading]);
   useEffect(() => { if (!isLoading) scenariosStorage.setValue(scenarios); }, [scenarios, isLoading]);
@@ -179,7 +185,7 @@ const App: React.FC = () => {
 
         {currentView === 'settings' && (
           <div className="space-y-12">
-            <div id="general"><GeneralSection config={autoTranslateConfig} setConfig={setAutoTranslateConfig} /></div>
+            <div id="general"><GeneralSection config={autoTranslateConfig} setConfig={setAutoTranslateConfig} scenarios={scenarios} /></div>
             <div id="visual-styles">
               <VisualStylesSection 
                 styles={styles} 
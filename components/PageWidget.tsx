@@ -11,9 +11,11 @@ interface PageWidgetProps {
   pageWords: WordEntry[];
   setPageWords: React.Dispatch<React.SetStateAction<WordEntry[]>>;
   onBatchAddToLearning?: (ids: string[]) => void;
+  replacementsShown?: boolean;
+  onToggleReplacements?: () => void;
 }
 
-export const PageWidget: React.FC<PageWidgetProps> = ({ config, setConfig, pageWords, onBatchAddToLearning }) => {
+export const PageWidget: React.FC<PageWidgetProps> = ({ config, setConfig, pageWords, onBatchAddToLearning, replacementsShown, onToggleReplacements }) => {
   // Local UI State to prevent storage trashing during drag
   const [localConfig, setLocalConfig] = useState<PageWidgetConfig>(config);
   
@@ -286,6 +288,8 @@ export const PageWidget: React.FC<PageWidgetProps> = ({ config, setConfig, pageW
          isDragging={isDraggingBall}
          onMouseDown={startDragBall}
          onClick={handleBallClick}
+         replacementsShown={replacementsShown}
+         onToggleReplacements={onToggleReplacements}
       />
 
       {isOpen && (
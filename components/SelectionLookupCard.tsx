@@ -0,0 +1,171 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { WordEntry, WordInteractionConfig, WordCategory, RichDictionaryResult, Scenario, BubblePosition } from '../types';
+import { Volume2, Plus, Check, X, Loader2, Search } from 'lucide-react';
+import { playWordAudio } from '../utils/audio';
+import { browser } from 'wxt/browser';
+import { placeBubble } from './WordBubble';
+import { buildEntryFromLookup, isChineseSelection, isLookupCandidate, pickMeaningCard } from '../utils/selection-capture';
+
+interface SelectionLookupCardProps {
+  text: string; // Selected page text, English or Chinese
+  targetRect: DOMRect;
+  context: Partial<WordEntry>; // Captured when the selection was made; the selection is usually gone by now
+  entries: WordEntry[];
+  scenarios: Scenario[];
+  config: WordInteractionConfig;
+  onAdd: (dictionaryEntry: Partial<WordEntry>, capture: Partial<WordEntry>) => Promise<void>; // capture: context, category and scenario
+  onClose: () => void;
+  ttsSpeed?: number;
+}
+
+// Chinese selections are looked up through their English translation
+const resolveLookupText = async (text: string): Promise<string> => {
+    if (!isLookupCandidate(text)) throw new Error('请选择一个单词或短语');
+    if (!isChineseSelection(text)) return text;
+    const response = await browser.runtime.sendMessage({ action: 'TRANSLATE_TEXT', text, target: 'en' }) as any;
+    const english = response?.success ? String(response.data?.text || '').trim().replace(/[.!?。！？]+$/, '') : '';
+    if (!english || !isLookupCandidate(english)) throw new Error('未能找到对应的英文单词');
+    return english;
+};
+
+export const SelectionLookupCard: React.FC<SelectionLookupCardProps> = ({
+    text,
+    targetRect,
+    context,
+    entries,
+    scenarios,
+    config,
+    onAdd,
+    onClose,
+    ttsSpeed = 1.0
+}) => {
+  const [result, setResult] = useState<RichDictionaryResult | null>(null);
+  const [error, setError] = useState('');
+  const [cardIndex, setCardIndex] = useState(0);
+  const [category, setCategory] = useState<WordCategory>(WordCategory.LearningWord);
+  const [scenarioId, setScenarioId] = useState(scenarios.find(s => s.isActive)?.id || '1');
+  const [isAdded, setIsAdded] = useState(false);
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+  const [placedSide, setPlacedSide] = useState<BubblePosition>('bottom');
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      let cancelled = false;
+      setResult(null);
+      setError('');
+      setIsAdded(false);
+      (async () => {
+          try {
+              const lookupText = await resolveLookupText(text);
+              const response = await browser.runtime.sendMessage({ action: 'LOOKUP_WORD_RICH', text: lookupText }) as any;
+              if (cancelled) return;
+              const data: RichDictionaryResult | undefined = response?.success ? response.data : undefined;
+              if (!data || data.meanings.length === 0) throw new Error('未查询到释义');
+              const card = pickMeaningCard(data, text);
+              setCardIndex(card ? data.meanings.indexOf(card) : 0);
+              setResult(data);
+          } catch (e: any) {
+              if (!cancelled) setError(e.message || String(e));
+          }
+      })();
+      return () => { cancelled = true; };
+  }, [text]);
+
+  // Below the selection by default: above it would cover the line being read
+  useEffect(() => {
+      if (!cardRef.current) return;
+      const placed = placeBubble(targetRect, cardRef.current.getBoundingClientRect(), 'bottom');
+      setPosition({ top: placed.top, left: placed.left });
+      setPlacedSide(placed.side);
+  }, [targetRect, result, error]);
+
+  const existing = result ? entries.find(e => e.text.toLowerCase() === result.text.toLowerCase()) : undefined;
+
+  const handleAdd = async (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!result || isAdded) return;
+      const card = result.meanings[cardIndex];
+      await onAdd(buildEntryFromLookup(result, card), { ...context, category, scenarioId, addedAt: Date.now() });
+      setIsAdded(true);
+  };
+
+  const playAudio = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (result) playWordAudio(result.text, config.autoPronounceAccent, ttsSpeed);
+  };
+
+  const containerStyle: React.CSSProperties = { position: 'fixed', zIndex: 2147483647, backgroundColor: '#ffffff', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)', border: '1px solid #e2e8f0', padding: '16px 20px 20px', width: '300px', boxSizing: 'border-box', top: position?.top ?? -9999, left: position?.left ?? -9999, opacity: position ? 1 : 0, transition: 'opacity 0.15s ease-out', pointerEvents: 'auto', fontFamily: 'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif', fontSize: '16px', lineHeight: '1.5', color: '#0f172a', textAlign: 'left' };
+  const arrowStyle: React.CSSProperties = { position: 'absolute', width: '12px', height: '12px', backgroundColor: '#ffffff', transform: 'rotate(45deg)', border: '1px solid #e2e8f0', zIndex: -1, left: 'calc(50% - 6px)' };
+  if (placedSide === 'top') Object.assign(arrowStyle, { bottom: '-6px', borderTopColor: 'transparent', borderLeftColor: 'transparent' });
+  else Object.assign(arrowStyle, { top: '-6px', borderBottomColor: 'transparent', borderRightColor: 'transparent' });
+
+  const headerStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '12px', lineHeight: 1 };
+  const wordStyle: React.CSSProperties = { fontSize: '20px', fontWeight: '700', color: '#0f172a', margin: '0 0 4px 0', lineHeight: '1.2' };
+  const phoneticStyle: React.CSSProperties = { fontSize: '12px', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace', color: '#94a3b8', display: 'block' };
+  const btnStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '6px', borderRadius: '9999px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#94a3b8', transition: 'background-color 0.2s, color 0.2s' };
+  const addBtnStyle: React.CSSProperties = { ...btnStyle, backgroundColor: isAdded ? '#f0fdf4' : '#eff6ff', color: isAdded ? '#16a34a' : '#2563eb' };
+  const meaningStyle = (selected: boolean): React.CSSProperties => ({ fontSize: '13px', color: '#334155', padding: '6px 8px', borderRadius: '6px', cursor: 'pointer', border: `1px solid ${selected ? '#93c5fd' : 'transparent'}`, backgroundColor: selected ? '#eff6ff' : 'transparent', lineHeight: '1.4' });
+  const contextStyle: React.CSSProperties = { fontSize: '12px', fontStyle: 'italic', color: '#475569', borderLeft: '3px solid #60a5fa', paddingLeft: '12px', margin: '12px 0', lineHeight: '1.5', maxHeight: '60px', overflow: 'hidden' };
+  const selectStyle: React.CSSProperties = { flex: 1, fontSize: '12px', padding: '4px 6px', border: '1px solid #e2e8f0', borderRadius: '6px', backgroundColor: '#f8fafc', color: '#334155' };
+  const mutedStyle: React.CSSProperties = { fontSize: '12px', color: '#94a3b8', display: 'flex', alignItems: 'center', gap: '6px' };
+
+  return (
+    <div ref={cardRef} style={containerStyle}>
+        <div style={arrowStyle}></div>
+        <div style={headerStyle}>
+            <div>
+                <h4 style={wordStyle}>{result?.text || text}</h4>
+                {result && config.showPhonetic && (result.phoneticUs || result.phoneticUk) && (
+                    <span style={phoneticStyle}>{result.phoneticUs || result.phoneticUk}</span>
+                )}
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+                {result && <button onClick={playAudio} style={btnStyle} title="播放发音"><Volume2 size={18} /></button>}
+                {result && <button onClick={handleAdd} style={addBtnStyle} title={isAdded ? "已添加" : "添加到词库"}>{isAdded ? <Check size={18} /> : <Plus size={18} />}</button>}
+                <button onClick={onClose} style={btnStyle} title="关闭"><X size={18} /></button>
+            </div>
+        </div>
+
+        {!result && !error && <div style={mutedStyle}><Loader2 size={14} className="animate-spin" /> 查询中...</div>}
+        {error && <div style={mutedStyle}>{error}</div>}
+
+        {result && (
+            <>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', maxHeight: '140px', overflowY: 'auto' }}>
+                    {result.meanings.map((card, i) => (
+                        <div key={i} style={meaningStyle(i === cardIndex)} onClick={() => setCardIndex(i)} title="选择要收录的释义">
+                            {card.partOfSpeech && <span style={{ marginRight: '6px', color: '#94a3b8', fontStyle: 'italic' }}>{card.partOfSpeech}</span>}
+                            {card.defCn || card.defEn}
+                        </div>
+                    ))}
+                </div>
+
+                {context.contextSentence && <div style={contextStyle}>{context.contextSentence}</div>}
+
+                <div style={{ display: 'flex', gap: '8px', marginTop: context.contextSentence ? 0 : '12px' }}>
+                    <select style={selectStyle} value={category} onChange={e => setCategory(e.target.value as WordCategory)}>
+                        {Object.values(WordCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <select style={selectStyle} value={scenarioId} onChange={e => setScenarioId(e.target.value)}>
+                        {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+
+                {existing && !isAdded && (
+                    <div style={{ ...mutedStyle, marginTop: '8px' }}>已在词库 ({existing.category})；选同一释义添加会更新其分类与语境</div>
+                )}
+            </>
+        )}
+    </div>
+  );
+};
+
+// Small button next to a fresh selection; opens the card
+export const SelectionLookupButton: React.FC<{ targetRect: DOMRect; onClick: () => void }> = ({ targetRect, onClick }) => {
+  const style: React.CSSProperties = { position: 'fixed', zIndex: 2147483647, top: Math.min(targetRect.bottom + 6, window.innerHeight - 34), left: Math.min(targetRect.right + 4, window.innerWidth - 34), width: '28px', height: '28px', borderRadius: '9999px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#2563eb', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer', pointerEvents: 'auto', padding: 0 };
+  return (
+    <button style={style} title="查词并收录" onClick={(e) => { e.stopPropagation(); onClick(); }}>
+        <Search size={15} />
+    </button>
+  );
+};
@@ -1,12 +1,14 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { WordEntry, WordInteractionConfig, WordCategory } from '../types';
+import { WordEntry, WordInteractionConfig, WordCategory, BubblePosition } from '../types';
 import { Volume2, Plus, Check, ExternalLink, BookOpen } from 'lucide-react';
 import { playWordAudio, playSentenceAudio, stopAudio } from '../utils/audio';
 import { browser } from 'wxt/browser';
+import { ChosenSense } from '../utils/sense-scorer';
 
 interface WordBubbleProps {
   entry: WordEntry | null;
   originalText: string;
+  sense?: ChosenSense; // Meaning this occurrence was matched as; falls back to the full translation
   targetRect: DOMRect | null;
   config: WordInteractionConfig;
   isVisible: boolean;
@@ -16,9 +18,51 @@ interface WordBubbleProps {
   ttsSpeed?: number;
 }
 
+/**
+ * Where a bubble of size `bubbleRect` goes next to `targetRect`: the preferred
+ * side, flipped between top and bottom when it doesn't fit, kept inside the viewport.
+ */
+export const placeBubble = (targetRect: DOMRect, bubbleRect: DOMRect, preferred: BubblePosition): { top: number; left: number; side: BubblePosition } => {
+    const viewportWidth = window.innerWidth;
+    const viewportHeight = window.innerHeight;
+    const gap = 12;
+    let finalTop = 0; let finalLeft = 0; let side = preferred;
+
+    const getPos = (s: string) => {
+        switch (s) {
+            case 'top': return { t: targetRect.top - bubbleRect.height - gap, l: targetRect.left + (targetRect.width / 2) - (bubbleRect.width / 2) };
+            case 'bottom': return { t: targetRect.bottom + gap, l: targetRect.left + (targetRect.width / 2) - (bubbleRect.width / 2) };
+            case 'left': return { t: targetRect.top + (targetRect.height / 2) - (bubbleRect.height / 2), l: targetRect.left - bubbleRect.width - gap };
+            case 'right': return { t: targetRect.top + (targetRect.height / 2) - (bubbleRect.height / 2), l: targetRect.right + gap };
+            default: return { t: 0, l: 0 };
+        }
+    };
+
+    let { t, l } = getPos(side);
+    finalTop = t; finalLeft = l;
+
+    if (side === 'bottom') {
+        if (finalTop + bubbleRect.height > viewportHeight - 10) {
+            if (targetRect.top - gap - 10 > bubbleRect.height) { side = 'top'; const res = getPos('top'); finalTop = res.t; finalLeft = res.l; }
+        }
+    } else if (side === 'top') {
+         if (finalTop < 10) {
+             if (viewportHeight - (targetRect.bottom + gap) - 10 > bubbleRect.height) { side = 'bottom'; const res = getPos('bottom'); finalTop = res.t; finalLeft = res.l; }
+         }
+    }
+
+    if (finalLeft < 10) finalLeft = 10;
+    if (finalLeft + bubbleRect.width > viewportWidth - 10) finalLeft = viewportWidth - bubbleRect.width - 10;
+    if (finalTop < 10) finalTop = 10;
+    if (finalTop + bubbleRect.height > viewportHeight - 10) finalTop = viewportHeight - bubbleRect.height - 10;
+
+    return { top: finalTop, left: finalLeft, side };
+};
+
 export const WordBubble: React.FC<WordBubbleProps> = ({ 
     entry, 
     originalText, 
+    sense,
     targetRect, 
     config, 
     isVisible, 
@@ -101,42 +145,9 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   // Position calculation logic remains the same...
   useEffect(() => {
     if (isVisible && targetRect && bubbleRef.current) {
-      const bubbleRect = bubbleRef.current.getBoundingClientRect();
-      const viewportWidth = window.innerWidth;
-      const viewportHeight = window.innerHeight;
-      const gap = 12;
-      let finalTop = 0; let finalLeft = 0; let side = config.bubblePosition;
-
-      const getPos = (s: string) => {
-          switch (s) {
-              case 'top': return { t: targetRect.top - bubbleRect.height - gap, l: targetRect.left + (targetRect.width / 2) - (bubbleRect.width / 2) };
-              case 'bottom': return { t: targetRect.bottom + gap, l: targetRect.left + (targetRect.width / 2) - (bubbleRect.width / 2) };
-              case 'left': return { t: targetRect.top + (targetRect.height / 2) - (bubbleRect.height / 2), l: targetRect.left - bubbleRect.width - gap };
-              case 'right': return { t: targetRect.top + (targetRect.height / 2) - (bubbleRect.height / 2), l: targetRect.right + gap };
-              default: return { t: 0, l: 0 };
-          }
-      };
-
-      let { t, l } = getPos(side);
-      finalTop = t; finalLeft = l;
-
-      if (side === 'bottom') {
-          if (finalTop + bubbleRect.height > viewportHeight - 10) {
-              if (targetRect.top - gap - 10 > bubbleRect.height) { side = 'top'; const res = getPos('top'); finalTop = res.t; finalLeft = res.l; }
-          }
-      } else if (side === 'top') {
-           if (finalTop < 10) {
-               if (viewportHeight - (targetRect.bottom + gap) - 10 > bubbleRect.height) { side = 'bottom'; const res = getPos('bottom'); finalTop = res.t; finalLeft = res.l; }
-           }
-      }
-
-      if (finalLeft < 10) finalLeft = 10;
-      if (finalLeft + bubbleRect.width > viewportWidth - 10) finalLeft = viewportWidth - bubbleRect.width - 10;
-      if (finalTop < 10) finalTop = 10;
-      if (finalTop + bubbleRect.height > viewportHeight - 10) finalTop = viewportHeight - bubbleRect.height - 10;
-
-      setPosition({ top: finalTop, left: finalLeft });
-      setPlacedSide(side as any);
+      const placed = placeBubble(targetRect, bubbleRef.current.getBoundingClientRect(), config.bubblePosition);
+      setPosition({ top: placed.top, left: placed.left });
+      setPlacedSide(placed.side);
     }
   }, [isVisible, targetRect, entry, config.bubblePosition]);
 
@@ -191,7 +202,14 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
                 <button onClick={handleAdd} style={addBtnStyle} title={isAdded ? "已添加" : "添加到正在学"}>{isAdded ? <Check size={18} /> : <Plus size={18} />}</button>
             </div>
         </div>
-        {config.showDictTranslation && (<div style={meaningStyle}>{entry.translation}</div>)}
+        {config.showDictTranslation && (
+            sense ? (
+                <div style={meaningStyle} title={entry.translation}>
+                    {sense.partOfSpeech && <span style={{ marginRight: '6px', color: '#94a3b8', fontStyle: 'italic' }}>{sense.partOfSpeech}.</span>}
+                    {sense.meaning}
+                </div>
+            ) : (<div style={meaningStyle}>{entry.translation}</div>)
+        )}
         {config.showOriginalText && (<div style={originalBoxStyle}><span style={{ marginRight: '8px', color: '#94a3b8', userSelect: 'none' }}>原文:</span><span style={{ fontWeight: '500' }}>{originalText || '...'}</span></div>)}
         {config.showDictExample && entry.dictionaryExample && (
             <div style={exampleStyle} onClick={() => playSentence(entry.dictionaryExample!)} title="点击朗读例句">
@@ -13,6 +13,7 @@ import { BilingualSentencesSection, MediaSentencesSection } from './word-detail/
 import { WebTransSection, ExamsSection, WikiSection } from './word-detail/WebSection';
 import { SpecialSection } from './word-detail/SpecialSection';
 import { interactionConfigStorage } from '../utils/storage';
+import { fetchYoudaoRawDetails } from '../utils/dictionary-service';
 import { DEFAULT_WORD_INTERACTION } from '../constants';
 
 interface WordDetailProps {
@@ -87,9 +88,7 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
       setLoading(true);
       setError('');
       try {
-        const res = await fetch(`https://dict.youdao.com/jsonapi?q=${encodeURIComponent(word)}`);
-        if (!res.ok) throw new Error('API request failed');
-        const json = await res.json();
+        const json = await fetchYoudaoRawDetails(word);
         setData(json);
       } catch (err) {
         console.error(err);
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { WordCategory, WordEntry, MergeStrategyConfig, WordTab, Scenario } from '../types';
+import { WordCategory, WordEntry, MergeStrategyConfig, WordTab, Scenario, PhraseItem } from '../types';
 import { DEFAULT_MERGE_STRATEGY } from '../constants';
 import { Upload, Download, Filter, Settings2, List, Search, Plus, Trash2, CheckSquare, Square, ArrowRight, BookOpen, GraduationCap, CheckCircle, RotateCcw, FileDown } from 'lucide-react';
 import { MergeConfigModal } from './word-manager/MergeConfigModal';
@@ -502,6 +502,18 @@ export const WordManager: React.FC<WordManagerProps> = ({
       }
   };
 
+  // Saved phrases become first-class entries so the content script can replace them too
+  const handleAddPhrase = (parent: WordEntry, phrase: PhraseItem) => {
+      handleAddWord({
+          text: phrase.text,
+          translation: phrase.trans,
+          category: parent.category,
+          contextSentence: parent.contextSentence,
+      });
+  };
+
+  const isPhraseSaved = (phrase: PhraseItem) => entries.some(e => e.text.toLowerCase() === phrase.text.toLowerCase());
+
   const handleDragStart = (index: number) => setDraggedItemIndex(index);
   const handleDragOver = (e: React.DragEvent, index: number) => {
     e.preventDefault();
@@ -725,6 +737,8 @@ export const WordManager: React.FC<WordManagerProps> = ({
            isAllWordsTab={isAllWordsTab}
            searchQuery={searchQuery}
            ttsSpeed={ttsSpeed}
+           onAddPhrase={handleAddPhrase}
+           isPhraseSaved={isPhraseSaved}
         />
       </div>
     </div>
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { Eye, EyeOff } from 'lucide-react';
 import { PageWidgetConfig } from '../../types';
 
 interface FloatingBallProps {
@@ -8,9 +9,11 @@ interface FloatingBallProps {
     isDragging: boolean;
     onMouseDown: (e: React.MouseEvent) => void;
     onClick: (e: React.MouseEvent) => void;
+    replacementsShown?: boolean;
+    onToggleReplacements?: () => void;
 }
 
-export const FloatingBall: React.FC<FloatingBallProps> = ({ config, badgeCount, isDragging, onMouseDown, onClick }) => {
+export const FloatingBall: React.FC<FloatingBallProps> = ({ config, badgeCount, isDragging, onMouseDown, onClick, replacementsShown = true, onToggleReplacements }) => {
     return (
         <div 
             className={`fixed z-[2147483647] cursor-move select-none group touch-none`}
@@ -118,6 +121,21 @@ export const FloatingBall: React.FC<FloatingBallProps> = ({ config, badgeCount,
                     </div>
                 )}
             </div>
+
+            {/* --- Original Text Toggle (shown on hover, or while the page is restored) --- */}
+            {onToggleReplacements && !isDragging && (
+                <button
+                    className={`absolute -bottom-1 -left-1 z-30 w-6 h-6 rounded-full flex items-center justify-center border border-white/60 shadow-md transition-opacity duration-200 ${replacementsShown ? 'bg-white text-slate-500 opacity-0 group-hover:opacity-100 hover:text-blue-600' : 'bg-slate-700 text-white opacity-100'}`}
+                    title={replacementsShown ? '还原原文' : '重新显示替换'}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleReplacements();
+                    }}
+                >
+                    {replacementsShown ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                </button>
+            )}
         </div>
     );
 };
@@ -1,10 +1,15 @@
 
 
-import React, { useState } from 'react';
-import { TranslationEngine, EngineType, DictionaryEngine } from '../../types';
-import { Plus, GripVertical, RefreshCw, CheckCircle, WifiOff, Trash2, Globe, BrainCircuit, X, Book, ExternalLink } from 'lucide-react';
-import { callTencentTranslation } from '../../utils/api';
-import { dictionariesStorage } from '../../utils/storage';
+import React, { useState, useEffect } from 'react';
+import { TranslationEngine, EngineType, DictionaryEngine, EngineHealth, EngineErrorKind, EngineUsageLedger, EngineBudgetAction, OfflineDictionaryInfo } from '../../types';
+import { Plus, GripVertical, RefreshCw, CheckCircle, WifiOff, Trash2, Globe, BrainCircuit, X, Book, ExternalLink, Activity, ShieldOff, BarChart3, Upload, HardDrive } from 'lucide-react';
+import { browser } from 'wxt/browser';
+import { dictionariesStorage, engineHealthStorage, engineUsageStorage, offlineDictionaryInfoStorage } from '../../utils/storage';
+import { isCircuitOpen, resetEngineHealth } from '../../utils/engine-health';
+import { getMonthlyUsage, getDailyUsage } from '../../utils/engine-usage';
+import { importEcdictCsv, clearOfflineDictionary } from '../../utils/offline-dictionary';
+import { clearDictionaryCache } from '../../utils/dictionary-cache';
+import { DEFAULT_AI_SYSTEM_PROMPT, OFFLINE_DICTIONARY } from '../../constants';
 
 // Simple Tooltip component internal to section
 const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text, children }) => {
@@ -19,6 +24,45 @@ const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text,
   );
 };
 
+type CredentialField = 'appId' | 'apiKey' | 'secretKey';
+
+// Credential inputs per built-in engine (Tencent has its own block below)
+const CREDENTIAL_FIELDS: Record<string, { key: CredentialField; label: string; secret?: boolean }[]> = {
+  google: [{ key: 'apiKey', label: 'API Key', secret: true }],
+  deepl: [{ key: 'apiKey', label: 'Auth Key', secret: true }],
+  baidu: [{ key: 'appId', label: 'APP ID' }, { key: 'secretKey', label: '密钥 (Secret Key)', secret: true }],
+  volcengine: [{ key: 'appId', label: 'AccessKeyId' }, { key: 'secretKey', label: 'SecretAccessKey', secret: true }],
+  iflytek: [{ key: 'appId', label: 'APPID' }, { key: 'apiKey', label: 'APIKey', secret: true }, { key: 'secretKey', label: 'APISecret', secret: true }],
+};
+
+const ERROR_KIND_LABELS: Record<EngineErrorKind, string> = {
+  auth: '鉴权失败',
+  quota: '额度不足',
+  timeout: '请求超时',
+  network: '网络错误',
+  unknown: '其他错误',
+};
+
+const USAGE_CHART_DAYS = 30;
+
+// Base URLs outside host_permissions need an optional grant; asked for from a click or blur so it counts as a user gesture
+const requestEndpointPermission = async (endpoint?: string): Promise<boolean> => {
+  let origin: string;
+  try {
+    origin = new URL(endpoint || '').origin;
+  } catch {
+    return false;
+  }
+  try {
+    return await browser.permissions.request({ origins: [`${origin}/*`] });
+  } catch (e) {
+    console.warn('ContextLingo: Host permission request failed', origin, e);
+    return false;
+  }
+};
+
+const formatChars = (chars: number) => chars >= 10000 ? `${(chars / 10000).toFixed(1)}万` : String(chars);
+
 interface EnginesSectionProps {
     engines: TranslationEngine[];
     setEngines: React.Dispatch<React.SetStateAction<TranslationEngine[]>>;
@@ -30,6 +74,30 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
   const [newEngineType, setNewEngineType] = useState<EngineType | null>(null);
   const [newEngineData, setNewEngineData] = useState<Partial<TranslationEngine>>({});
   const [draggedEngineIndex, setDraggedEngineIndex] = useState<number | null>(null);
+  const [healthMap, setHealthMap] = useState<Record<string, EngineHealth>>({});
+  const [expandedHealthId, setExpandedHealthId] = useState<string | null>(null);
+  const [usageLedger, setUsageLedger] = useState<EngineUsageLedger>({});
+  const [offlineInfo, setOfflineInfo] = useState<OfflineDictionaryInfo | null>(null);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    engineHealthStorage.getValue().then(setHealthMap);
+    const unwatch = engineHealthStorage.watch(v => v && setHealthMap(v));
+    return () => unwatch();
+  }, []);
+
+  useEffect(() => {
+    offlineDictionaryInfoStorage.getValue().then(setOfflineInfo);
+    const unwatch = offlineDictionaryInfoStorage.watch(v => v && setOfflineInfo(v));
+    return () => unwatch();
+  }, []);
+
+  useEffect(() => {
+    engineUsageStorage.getValue().then(setUsageLedger);
+    const unwatch = engineUsageStorage.watch(v => setUsageLedger(v || {}));
+    return () => unwatch();
+  }, []);
 
   const handleDragStart = (index: number) => {
     setDraggedEngineIndex(index);
@@ -59,11 +127,48 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
     setEngines(prev => prev.filter(e => e.id !== id));
   };
 
+  const updateEngine = (id: string, patch: Partial<TranslationEngine>) => {
+    setEngines(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
   const toggleDictionary = async (id: string) => {
       const updated = dictionaries.map(d => d.id === id ? { ...d, isEnabled: !d.isEnabled } : d);
       await dictionariesStorage.setValue(updated);
   };
 
+  const updateDictionary = async (id: string, patch: Partial<DictionaryEngine>) => {
+      await dictionariesStorage.setValue(dictionaries.map(d => d.id === id ? { ...d, ...patch } : d));
+  };
+
+  const handleImportOffline = async (file: File) => {
+      setImportError(null);
+      setImportProgress(0);
+      try {
+          await importEcdictCsv(file, setImportProgress);
+          // Cached lookups were built without (or from an older) pack
+          await clearDictionaryCache();
+          if (!dictionaries.some(d => d.id === OFFLINE_DICTIONARY.id)) {
+              await dictionariesStorage.setValue([OFFLINE_DICTIONARY, ...dictionaries]);
+          }
+      } catch (err) {
+          setImportError(err instanceof Error ? err.message : String(err));
+      } finally {
+          setImportProgress(null);
+      }
+  };
+
+  const handleClearOffline = async () => {
+      if (!confirm('确定要删除已导入的离线词典吗？')) return;
+      await clearOfflineDictionary();
+      await clearDictionaryCache();
+      await dictionariesStorage.setValue(dictionaries.filter(d => d.id !== OFFLINE_DICTIONARY.id));
+  };
+
+  const handleClearDictionaryCache = async () => {
+      if (!confirm('确定要清空词典查询缓存吗？')) return;
+      await clearDictionaryCache();
+  };
+
   const testConnection = async (id: string) => {
     setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: true, testResult: null, testErrorMessage: undefined } : e));
     
@@ -71,18 +176,15 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
     if (!engine) return;
 
     try {
-      if (engine.id === 'tencent') {
-         // Testing with Target='zh' implies we send English or "Hello" and expect Chinese back to verify key works
-         await callTencentTranslation(engine, "Hello", 'zh');
-         setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: false, testResult: 'success' } : e));
-      } else if (engine.id === 'custom-mock') {
-         // Mock success
-         setTimeout(() => {
-             setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: false, testResult: 'success' } : e));
-         }, 500);
-      } else {
-         throw new Error("此引擎暂未实现真实连接测试 (仅支持腾讯云)");
+      if (engine.type === 'ai' && !(await requestEndpointPermission(engine.endpoint))) {
+        throw new Error('未获得访问该 Base URL 的权限');
       }
+      // Testing with Target='zh' implies we send English or "Hello" and expect Chinese back to verify key works
+      // Sent through the background, which meters every request
+      const res: any = await browser.runtime.sendMessage({ action: 'TRANSLATE_TEXT', text: "Hello", target: 'zh', engine });
+      if (!res?.success) throw new Error(res?.error || 'Unknown Error');
+      await resetEngineHealth(id);
+      setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: false, testResult: 'success' } : e));
     } catch (err) {
       console.error(err);
       const errMsg = err instanceof Error ? err.message : 'Unknown Error';
@@ -106,6 +208,7 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
       secretKey: newEngineData.secretKey || ''
     };
 
+    if (newEngine.type === 'ai') requestEndpointPermission(newEngine.endpoint);
     setEngines([...engines, newEngine]);
     setIsModalOpen(false);
     setNewEngineType(null);
@@ -117,7 +220,7 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
         <div className="p-6 border-b border-slate-200 flex justify-between items-center">
             <div>
               <h2 className="text-lg font-bold text-slate-800">翻译引擎配置</h2>
-              <p className="text-sm text-slate-500 mt-1">配置翻译 API。系统将按列表顺序依次尝试调用 (拖拽调整顺序)。</p>
+              <p className="text-sm text-slate-500 mt-1">配置翻译 API。系统将按列表顺序依次尝试调用 (拖拽调整顺序)，鉴权/额度错误或超时会自动切换到下一个引擎。</p>
             </div>
             <button 
               onClick={() => setIsModalOpen(true)}
@@ -185,10 +288,16 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
                   
                   {engine.isEnabled && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm animate-in fade-in slide-in-from-top-2 cursor-default" onMouseDown={e => e.stopPropagation()}>
-                       {engine.id !== 'google' && engine.id !== 'tencent' && engine.id !== 'custom-mock' && (
-                         <input type="password" placeholder="API Key" className="px-3 py-2 border border-slate-300 rounded w-full" defaultValue={engine.apiKey} />
-                       )}
-                       
+                       {(CREDENTIAL_FIELDS[engine.id] || []).map(field => (
+                          <div key={field.key} className="col-span-2 md:col-span-1">
+                              <label className="text-[10px] text-slate-500 mb-1 block">{field.label}</label>
+                              <input type={field.secret ? 'password' : 'text'} placeholder={field.label} className="px-3 py-2 border border-slate-300 rounded w-full font-mono text-xs"
+                                 value={engine[field.key] || ''}
+                                 onChange={e => updateEngine(engine.id, { [field.key]: e.target.value })}
+                              />
+                          </div>
+                       ))}
+
                        {/* Tencent Special Fields */}
                        {engine.id === 'tencent' && (
                           <>
@@ -223,17 +332,145 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
                           </>
                        )}
 
-                       {(engine.id === 'baidu' || engine.id === 'volcengine') && (
-                          <input type="text" placeholder="App ID" className="px-3 py-2 border border-slate-300 rounded w-full" defaultValue={engine.appId} />
-                       )}
-                       {(engine.id === 'volcengine' || engine.id === 'iflytek' || engine.id === 'baidu') && (
-                          <input type="password" placeholder="Secret Key" className="px-3 py-2 border border-slate-300 rounded w-full" defaultValue={engine.secretKey} />
-                       )}
+                       {/* AI (OpenAI-compatible) Fields */}
                        {engine.type === 'ai' && (
-                          <input type="text" placeholder="Model Name (e.g. gpt-4)" className="px-3 py-2 border border-slate-300 rounded w-full" defaultValue={engine.model} />
+                          <>
+                             <div className="col-span-2 md:col-span-1">
+                                 <label className="text-[10px] text-slate-500 mb-1 block">Base URL</label>
+                                 <input type="text" placeholder="http://localhost:11434/v1" className="px-3 py-2 border border-slate-300 rounded w-full font-mono text-xs"
+                                    value={engine.endpoint || ''}
+                                    onChange={e => updateEngine(engine.id, { endpoint: e.target.value })}
+                                    onBlur={() => requestEndpointPermission(engine.endpoint)}
+                                 />
+                             </div>
+                             <div className="col-span-2 md:col-span-1">
+                                 <label className="text-[10px] text-slate-500 mb-1 block">API Key (本地模型可留空)</label>
+                                 <input type="password" placeholder="sk-..." className="px-3 py-2 border border-slate-300 rounded w-full font-mono text-xs"
+                                    value={engine.apiKey || ''}
+                                    onChange={e => updateEngine(engine.id, { apiKey: e.target.value })}
+                                 />
+                             </div>
+                             <div className="col-span-2 md:col-span-1">
+                                 <label className="text-[10px] text-slate-500 mb-1 block">Model</label>
+                                 <input type="text" placeholder="Model Name (e.g. gpt-4o-mini)" className="px-3 py-2 border border-slate-300 rounded w-full font-mono text-xs"
+                                    value={engine.model || ''}
+                                    onChange={e => updateEngine(engine.id, { model: e.target.value })}
+                                 />
+                             </div>
+                             <div className="col-span-2 md:col-span-1">
+                                 <label className="text-[10px] text-slate-500 mb-1 block">Temperature</label>
+                                 <input type="number" min="0" max="2" step="0.1" placeholder="0.2" className="px-3 py-2 border border-slate-300 rounded w-full text-xs"
+                                    value={engine.temperature ?? 0.2}
+                                    onChange={e => updateEngine(engine.id, { temperature: parseFloat(e.target.value) })}
+                                 />
+                             </div>
+                             <div className="col-span-2">
+                                 <label className="text-[10px] text-slate-500 mb-1 block">System Prompt (留空使用默认，{'{target}'} 代表目标语言)</label>
+                                 <textarea rows={3} placeholder={DEFAULT_AI_SYSTEM_PROMPT} className="px-3 py-2 border border-slate-300 rounded w-full text-xs resize-y"
+                                    value={engine.systemPrompt || ''}
+                                    onChange={e => updateEngine(engine.id, { systemPrompt: e.target.value })}
+                                 />
+                             </div>
+                          </>
                        )}
+
+                       {/* Monthly Budget */}
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="text-[10px] text-slate-500 mb-1 block">月度字符预算 (0 为不限)</label>
+                           <input type="number" min="0" step="10000" placeholder="0" className="px-3 py-2 border border-slate-300 rounded w-full text-xs"
+                              value={engine.monthlyCharBudget || 0}
+                              onChange={e => updateEngine(engine.id, { monthlyCharBudget: Math.max(0, parseInt(e.target.value) || 0) })}
+                           />
+                       </div>
+                       <div className="col-span-2 md:col-span-1">
+                           <label className="text-[10px] text-slate-500 mb-1 block">预算用尽后</label>
+                           <select className="px-3 py-2 border border-slate-300 rounded w-full text-xs bg-white"
+                              value={engine.budgetAction || 'fallthrough'}
+                              onChange={e => updateEngine(engine.id, { budgetAction: e.target.value as EngineBudgetAction })}
+                           >
+                              <option value="fallthrough">切换到下一个引擎</option>
+                              <option value="pause">暂停自动翻译</option>
+                           </select>
+                       </div>
                     </div>
                   )}
+
+                  {/* Usage */}
+                  {engine.isEnabled && usageLedger[engine.id] && (() => {
+                    const used = getMonthlyUsage(usageLedger, engine.id);
+                    const budget = engine.monthlyCharBudget || 0;
+                    const ratio = budget > 0 ? Math.min(used / budget, 1) : 0;
+                    const daily = getDailyUsage(usageLedger, engine.id, USAGE_CHART_DAYS);
+                    const peak = Math.max(...daily.map(d => d.chars), 1);
+                    return (
+                      <div className="text-xs border-t border-slate-100 pt-3 cursor-default" onMouseDown={e => e.stopPropagation()}>
+                        <div className="flex items-center gap-3 mb-2">
+                          <span className="flex items-center text-slate-600 font-medium"><BarChart3 className="w-3 h-3 mr-1"/> 本月用量: {formatChars(used)}{budget > 0 ? ` / ${formatChars(budget)}` : ''} 字符</span>
+                          {budget > 0 && used >= budget && (
+                            <span className="text-red-600 font-medium">{engine.budgetAction === 'pause' ? '已暂停自动翻译' : '已切换到后续引擎'}</span>
+                          )}
+                          <button onClick={() => browser.runtime.sendMessage({ action: 'RESET_ENGINE_USAGE', engineId: engine.id })} className="ml-auto text-slate-500 hover:text-slate-700 hover:underline">清空记录</button>
+                        </div>
+                        {budget > 0 && (
+                          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mb-2">
+                            <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${ratio * 100}%` }} />
+                          </div>
+                        )}
+                        <div className="flex items-end gap-[2px] h-12 bg-slate-50 border border-slate-100 rounded p-1">
+                          {daily.map(d => (
+                            <div key={d.day} title={`${d.day}: ${d.chars} 字符`} className="flex-1 bg-blue-300 hover:bg-blue-500 rounded-sm transition-colors"
+                              style={{ height: `${(d.chars / peak) * 100}%`, minHeight: d.chars > 0 ? 2 : 0 }}
+                            />
+                          ))}
+                        </div>
+                        <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                          <span>{daily[0].day.slice(5)}</span>
+                          <span>近 {USAGE_CHART_DAYS} 天</span>
+                          <span>{daily[daily.length - 1].day.slice(5)}</span>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Health / Circuit Status */}
+                  {engine.isEnabled && healthMap[engine.id] && (healthMap[engine.id].recentFailures.length > 0 || healthMap[engine.id].lastSuccessAt) && (() => {
+                    const health = healthMap[engine.id];
+                    const isOpen = isCircuitOpen(health);
+                    const isExpanded = expandedHealthId === engine.id;
+                    return (
+                      <div className="text-xs border-t border-slate-100 pt-3 cursor-default" onMouseDown={e => e.stopPropagation()}>
+                        <div className="flex items-center gap-3">
+                          {isOpen ? (
+                            <span className="flex items-center text-red-600 font-medium"><ShieldOff className="w-3 h-3 mr-1"/> 已熔断，{new Date(health.circuitOpenUntil).toLocaleTimeString()} 后重试</span>
+                          ) : health.consecutiveFailures > 0 ? (
+                            <span className="flex items-center text-amber-600 font-medium"><Activity className="w-3 h-3 mr-1"/> 不稳定 (连续失败 {health.consecutiveFailures} 次)</span>
+                          ) : (
+                            <span className="flex items-center text-green-600 font-medium"><Activity className="w-3 h-3 mr-1"/> 健康</span>
+                          )}
+                          {health.lastSuccessAt && <span className="text-slate-400">最近成功: {new Date(health.lastSuccessAt).toLocaleString()}</span>}
+                          <div className="ml-auto flex items-center gap-3">
+                            {health.recentFailures.length > 0 && (
+                              <button onClick={() => setExpandedHealthId(isExpanded ? null : engine.id)} className="text-blue-600 hover:underline">
+                                {isExpanded ? '收起' : `失败记录 (${health.recentFailures.length})`}
+                              </button>
+                            )}
+                            <button onClick={() => resetEngineHealth(engine.id)} className="text-slate-500 hover:text-slate-700 hover:underline">重置</button>
+                          </div>
+                        </div>
+                        {isExpanded && (
+                          <ul className="mt-2 space-y-1 bg-slate-50 border border-slate-100 rounded p-2 max-h-40 overflow-y-auto">
+                            {health.recentFailures.map((f, idx) => (
+                              <li key={idx} className="flex gap-2">
+                                <span className="text-slate-400 font-mono shrink-0">{new Date(f.time).toLocaleTimeString()}</span>
+                                <span className="text-red-500 shrink-0">[{ERROR_KIND_LABELS[f.kind]}]</span>
+                                <span className="text-slate-600 break-all">{f.message}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })()}
                 </div>
               </div>
             </div>
@@ -245,9 +482,10 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
             <h3 className="text-sm font-bold text-slate-800 mb-4 flex items-center">
                 <Book className="w-4 h-4 mr-2 text-slate-500"/>
                 词典数据源 (Dictionary Sources)
+                <button onClick={handleClearDictionaryCache} className="ml-auto text-xs font-normal text-slate-500 hover:text-red-600 hover:underline" title="查询结果会缓存 7 天">清空查询缓存</button>
             </h3>
             <p className="text-xs text-slate-500 mb-4">
-                当新增单词时，系统会自动从以下免费词典 API 补充音标、例句和详细释义。建议开启国内可用的数据源 (ICBA/Youdao) 以获得最佳体验。
+                当新增单词时，系统按优先级依次查询以下词典，首个有结果的词典作为主释义，后续词典补充缺失的音标、英文释义和例句。建议开启国内可用的数据源 (ICBA/Youdao) 以获得最佳体验。
             </p>
             <div className="space-y-3">
                 {dictionaries.map(dict => (
@@ -270,10 +508,47 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
                                 </a>
                              </div>
                              <div className="text-xs text-slate-500 mt-1">{dict.description}</div>
+                             {dict.id === 'iciba' && dict.isEnabled && (
+                                <input type="password" placeholder="ICBA API Key" className="mt-2 px-3 py-1.5 border border-slate-300 rounded w-full md:w-1/2 font-mono text-xs"
+                                   value={dict.apiKey || ''}
+                                   onChange={e => updateDictionary(dict.id, { apiKey: e.target.value })}
+                                />
+                             )}
                          </div>
                     </div>
                 ))}
             </div>
+
+            {/* Offline Dictionary Pack */}
+            <div className="mt-4 p-3 border border-dashed border-slate-300 rounded-lg bg-white">
+                <div className="flex items-center gap-2">
+                    <HardDrive className="w-4 h-4 text-slate-500"/>
+                    <span className="text-sm font-bold text-slate-800">离线词典包</span>
+                    {offlineInfo && offlineInfo.entries > 0 && (
+                        <span className="text-xs text-slate-500">{offlineInfo.fileName} · {offlineInfo.entries.toLocaleString()} 词 · {new Date(offlineInfo.importedAt).toLocaleDateString()}</span>
+                    )}
+                    <div className="ml-auto flex items-center gap-3">
+                        {offlineInfo && offlineInfo.entries > 0 && importProgress === null && (
+                            <button onClick={handleClearOffline} className="text-xs text-slate-500 hover:text-red-600 hover:underline">删除</button>
+                        )}
+                        <label className={`text-xs text-blue-600 font-medium flex items-center ${importProgress !== null ? 'opacity-50 pointer-events-none' : 'cursor-pointer hover:underline'}`}>
+                            <Upload className="w-3 h-3 mr-1"/> {offlineInfo && offlineInfo.entries > 0 ? '重新导入' : '导入 CSV'}
+                            <input type="file" accept=".csv,text/csv" className="hidden"
+                                onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportOffline(file); }}
+                            />
+                        </label>
+                    </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                    导入 <a href={OFFLINE_DICTIONARY.link} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">ECDICT</a> 格式的 CSV (需包含 word、translation 列)，查词将优先使用本地数据，断网也可用。
+                </p>
+                {importProgress !== null && (
+                    <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(importProgress * 100)}%` }} />
+                    </div>
+                )}
+                {importError && <p className="text-xs text-red-600 mt-2">导入失败: {importError}</p>}
+            </div>
         </div>
 
         {isModalOpen && (
@@ -319,6 +594,28 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
                          onChange={e => setNewEngineData({...newEngineData, name: e.target.value})}
                        />
                      </div>
+                     {newEngineType === 'ai' && (
+                       <>
+                         <div>
+                           <label className="block text-sm font-medium text-slate-700 mb-1">Base URL</label>
+                           <input 
+                             type="text" 
+                             className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm" 
+                             placeholder="https://api.openai.com/v1"
+                             onChange={e => setNewEngineData({...newEngineData, endpoint: e.target.value})}
+                           />
+                         </div>
+                         <div>
+                           <label className="block text-sm font-medium text-slate-700 mb-1">模型名称</label>
+                           <input 
+                             type="text" 
+                             className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm" 
+                             placeholder="gpt-4o-mini"
+                             onChange={e => setNewEngineData({...newEngineData, model: e.target.value})}
+                           />
+                         </div>
+                       </>
+                     )}
                      <div className="pt-4 flex gap-3">
                        <button onClick={() => setNewEngineType(null)} className="flex-1 py-2.5 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-slate-200">返回类型选择</button>
                        <button onClick={handleAddEngine} className="flex-1 py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700">确认添加</button>
@@ -1,38 +1,45 @@
 
-import React, { useState } from 'react';
-import { AutoTranslateConfig } from '../../types';
-import { ShieldAlert, ShieldCheck, X, Mic2, SplitSquareHorizontal, Scan, Zap, AlertTriangle, Power, Globe } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { AutoTranslateConfig, Scenario, TranslationCacheStats } from '../../types';
+import { Mic2, SplitSquareHorizontal, Scan, Zap, AlertTriangle, Power, Globe, Database, Trash2, RefreshCw, Languages, ScrollText } from 'lucide-react';
+import { browser } from 'wxt/browser';
+import { DEFAULT_AUTO_TRANSLATE } from '../../constants';
+import { SiteProfilesPanel } from './SiteProfilesPanel';
 
 interface GeneralSectionProps {
   config: AutoTranslateConfig;
   setConfig: React.Dispatch<React.SetStateAction<AutoTranslateConfig>>;
+  scenarios: Scenario[];
 }
 
-export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfig }) => {
-  const [newBlacklist, setNewBlacklist] = useState('');
-  const [newWhitelist, setNewWhitelist] = useState('');
+export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfig, scenarios }) => {
+  const [cacheStats, setCacheStats] = useState<(TranslationCacheStats & { entries: number }) | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
 
-  const addBlacklist = () => {
-    if (newBlacklist.trim()) {
-      setConfig({ ...config, blacklist: [...config.blacklist, newBlacklist.trim()] });
-      setNewBlacklist('');
+  const loadCacheStats = async () => {
+    try {
+      const res: any = await browser.runtime.sendMessage({ action: 'GET_TRANSLATION_CACHE_STATS' });
+      if (res && res.success) setCacheStats(res.data);
+    } catch (e) {
+      console.warn("Failed to load cache stats", e);
     }
   };
 
-  const addWhitelist = () => {
-    if (newWhitelist.trim()) {
-      setConfig({ ...config, whitelist: [...config.whitelist, newWhitelist.trim()] });
-      setNewWhitelist('');
+  useEffect(() => { loadCacheStats(); }, []);
+
+  const clearCache = async () => {
+    if (!confirm('确定要清空翻译缓存吗？之后访问的页面将重新调用翻译引擎。')) return;
+    setIsClearingCache(true);
+    try {
+      await browser.runtime.sendMessage({ action: 'CLEAR_TRANSLATION_CACHE' });
+      await loadCacheStats();
+    } finally {
+      setIsClearingCache(false);
     }
   };
 
-  const removeBlacklist = (item: string) => {
-    setConfig({ ...config, blacklist: config.blacklist.filter(i => i !== item) });
-  };
-
-  const removeWhitelist = (item: string) => {
-    setConfig({ ...config, whitelist: config.whitelist.filter(i => i !== item) });
-  };
+  const cacheLookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
+  const cacheHitRate = cacheLookups > 0 ? (cacheStats!.hits / cacheLookups) * 100 : 0;
 
   // Helper component for toggle items
   const ToggleCard = ({ 
@@ -109,6 +116,29 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                 colorClass="text-purple-600 bg-purple-50 border-purple-100"
             />
 
+            <ToggleCard 
+                title="按需翻译" 
+                desc="只翻译滚动到可视区域附近的段落，屏幕内的段落优先处理。长页面（论坛、小说）不再为没读到的内容消耗翻译额度。"
+                icon={ScrollText}
+                checked={config.lazyTranslate}
+                onChange={v => setConfig({...config, lazyTranslate: v})}
+                colorClass="text-emerald-600 bg-emerald-50 border-emerald-100"
+            />
+            {config.lazyTranslate && (
+                <div className="flex items-center gap-2 -mt-2 px-4 py-3 rounded-xl bg-slate-50 border border-slate-100 text-xs text-slate-500">
+                    <span className="font-bold text-slate-700">提前预取距离</span>
+                    <input 
+                      type="number" 
+                      min="0" 
+                      step="100"
+                      value={config.lazyPrefetchMargin ?? DEFAULT_AUTO_TRANSLATE.lazyPrefetchMargin}
+                      onChange={e => setConfig({...config, lazyPrefetchMargin: Math.max(0, parseInt(e.target.value) || 0)})}
+                      className="w-24 px-2 py-1 border border-slate-200 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span>px：距离屏幕这么近的段落就开始翻译，数值越大滚动越流畅，额度消耗也越多。</span>
+                </div>
+            )}
+
             <ToggleCard 
                 title="双语对照模式" 
                 desc="在被翻译的段落末尾追加显示完整的中文译文，帮助您更好地理解上下文语境。"
@@ -134,6 +164,15 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                     ) : null
                 }
             />
+
+            <ToggleCard 
+                title="英文页面注释" 
+                desc="阅读英文网页时，直接在原文中标出单词本里的单词（含变形），并在上方注出中文释义。不调用任何翻译 API。"
+                icon={Languages}
+                checked={config.englishPageMode}
+                onChange={v => setConfig({...config, englishPageMode: v})}
+                colorClass="text-teal-600 bg-teal-50 border-teal-100"
+            />
         </div>
 
         {/* TTS Speed Setting */}
@@ -177,91 +216,55 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
            </div>
         </div>
 
-        {/* Lists */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-           {/* Blacklist */}
-           <div className="bg-slate-50 rounded-xl border border-slate-200 p-5 flex flex-col h-full">
-              <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-2">
-                    <ShieldAlert className="w-4 h-4 text-red-500" />
-                    <h3 className="text-sm font-bold text-slate-800">黑名单 (永远不翻译)</h3>
-                  </div>
-                  <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{config.blacklist.length} 条规则</span>
-              </div>
-              
-              <div className="flex gap-2 mb-4">
-                 <input 
-                    type="text" 
-                    value={newBlacklist}
-                    onChange={e => setNewBlacklist(e.target.value)}
-                    placeholder="例如: baidu.com"
-                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-red-100 focus:border-red-400 outline-none transition-all"
-                    onKeyDown={e => e.key === 'Enter' && addBlacklist()}
-                 />
-                 <button onClick={addBlacklist} className="px-3 py-2 bg-slate-800 text-white rounded-lg text-xs hover:bg-slate-700 transition shadow-sm">添加</button>
-              </div>
-              
-              <div className="flex-1 bg-white border border-slate-200 rounded-lg overflow-hidden min-h-[120px]">
-                 <div className="max-h-48 overflow-y-auto custom-scrollbar p-2 space-y-1">
-                    {config.blacklist.length > 0 ? (
-                        config.blacklist.map(site => (
-                            <div key={site} className="flex justify-between items-center bg-slate-50 px-3 py-2 rounded text-xs border border-slate-100 group hover:border-red-100 hover:bg-red-50 transition-colors">
-                            <span className="font-mono text-slate-600 truncate">{site}</span>
-                            <button onClick={() => removeBlacklist(site)} className="text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"><X className="w-3.5 h-3.5"/></button>
-                            </div>
-                        ))
-                    ) : (
-                        <div className="h-full flex flex-col items-center justify-center text-slate-300 py-8">
-                            <ShieldAlert className="w-8 h-8 mb-2 opacity-20"/>
-                            <span className="text-xs">暂无黑名单规则</span>
-                        </div>
-                    )}
-                 </div>
-              </div>
+        {/* Translation Cache */}
+        <div className="bg-slate-50 p-5 rounded-xl border border-slate-100 flex items-center gap-6">
+           <div className="flex items-center gap-3 min-w-[120px]">
+               <div className="p-2 bg-white rounded-lg border border-slate-200 text-slate-500 shadow-sm">
+                   <Database className="w-4 h-4" />
+               </div>
+               <div>
+                   <h3 className="font-bold text-slate-900 text-sm">翻译缓存</h3>
+                   <span className="text-xs text-slate-400">Sentence Cache</span>
+               </div>
            </div>
 
-           {/* Whitelist */}
-           <div className="bg-slate-50 rounded-xl border border-slate-200 p-5 flex flex-col h-full">
-              <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-2">
-                    <ShieldCheck className="w-4 h-4 text-green-500" />
-                    <h3 className="text-sm font-bold text-slate-800">白名单 (强制翻译)</h3>
-                  </div>
-                  <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{config.whitelist.length} 条规则</span>
-              </div>
-              
-              <div className="flex gap-2 mb-4">
-                 <input 
-                    type="text" 
-                    value={newWhitelist}
-                    onChange={e => setNewWhitelist(e.target.value)}
-                    placeholder="例如: nytimes.com"
-                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-green-100 focus:border-green-400 outline-none transition-all"
-                    onKeyDown={e => e.key === 'Enter' && addWhitelist()}
-                 />
-                 <button onClick={addWhitelist} className="px-3 py-2 bg-slate-800 text-white rounded-lg text-xs hover:bg-slate-700 transition shadow-sm">添加</button>
-              </div>
-              
-              <div className="flex-1 bg-white border border-slate-200 rounded-lg overflow-hidden min-h-[120px]">
-                 <div className="max-h-48 overflow-y-auto custom-scrollbar p-2 space-y-1">
-                    {config.whitelist.length > 0 ? (
-                        config.whitelist.map(site => (
-                            <div key={site} className="flex justify-between items-center bg-slate-50 px-3 py-2 rounded text-xs border border-slate-100 group hover:border-green-100 hover:bg-green-50 transition-colors">
-                            <span className="font-mono text-slate-600 truncate">{site}</span>
-                            <button onClick={() => removeWhitelist(site)} className="text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"><X className="w-3.5 h-3.5"/></button>
-                            </div>
-                        ))
-                    ) : (
-                        <div className="h-full flex flex-col items-center justify-center text-slate-300 py-8">
-                            <ShieldCheck className="w-8 h-8 mb-2 opacity-20"/>
-                            <span className="text-xs">暂无白名单规则</span>
-                        </div>
-                    )}
-                 </div>
-              </div>
+           <div className="flex-1 grid grid-cols-3 gap-4 bg-white px-4 py-3 rounded-lg border border-slate-200 shadow-sm text-center">
+               <div>
+                   <div className="text-sm font-bold text-slate-800 font-mono">{cacheStats ? cacheStats.entries.toLocaleString() : '-'}</div>
+                   <div className="text-[10px] text-slate-400">已缓存句子</div>
+               </div>
+               <div>
+                   <div className="text-sm font-bold text-green-600 font-mono">{cacheStats ? `${cacheHitRate.toFixed(1)}%` : '-'}</div>
+                   <div className="text-[10px] text-slate-400">命中率 ({cacheStats?.hits.toLocaleString() || 0}/{cacheLookups.toLocaleString()})</div>
+               </div>
+               <div>
+                   <div className="text-sm font-bold text-slate-800 font-mono">{cacheStats?.misses.toLocaleString() || 0}</div>
+                   <div className="text-[10px] text-slate-400">调用引擎句数</div>
+               </div>
+           </div>
+
+           <div className="flex items-center gap-2">
+               <button onClick={loadCacheStats} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-white rounded-lg transition" title="刷新统计">
+                   <RefreshCw className="w-4 h-4" />
+               </button>
+               <button 
+                  onClick={clearCache} 
+                  disabled={isClearingCache}
+                  className="flex items-center px-3 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg text-xs hover:text-red-600 hover:border-red-200 hover:bg-red-50 transition shadow-sm disabled:opacity-50"
+               >
+                   <Trash2 className="w-3.5 h-3.5 mr-1" /> 清空缓存
+               </button>
            </div>
         </div>
 
+        <SiteProfilesPanel
+          profiles={config.siteProfiles || []}
+          onChange={siteProfiles => setConfig({ ...config, siteProfiles })}
+          scenarios={scenarios}
+          droppedLegacyRules={config.droppedLegacySiteRules}
+          onDismissDropped={() => setConfig({ ...config, droppedLegacySiteRules: undefined })}
+        />
+
       </div>
     </section>
   );
@@ -330,6 +330,13 @@ export const InteractionSection: React.FC<InteractionSectionProps> = ({ config,
                              <span className="text-[10px] text-slate-400">开启后新气泡不关闭旧气泡</span>
                           </div>
                       </div>
+                      <div className="col-span-2 flex items-center p-3 border rounded-lg cursor-pointer hover:bg-slate-50">
+                          <input type="checkbox" checked={config.selectionLookupButton || false} onChange={e => setConfig({...config, selectionLookupButton: e.target.checked})} className="rounded text-blue-600 mr-3"/>
+                          <div className="flex flex-col">
+                             <span className="text-sm">划词显示查词按钮</span>
+                             <span className="text-[10px] text-slate-400">选中单词或短语后在旁边显示小按钮；右键菜单中的“查词”始终可用</span>
+                          </div>
+                      </div>
                   </div>
 
                   <div className="mt-4 bg-slate-50 p-4 rounded-lg border border-slate-100">
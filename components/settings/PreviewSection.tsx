@@ -1,9 +1,16 @@
 
 import React, { useState } from 'react';
 import { TranslationEngine, WordEntry, StyleConfig, WordCategory, OriginalTextConfig, AutoTranslateConfig } from '../../types';
-import { RefreshCw, Play, AlertCircle, Zap, SplitSquareHorizontal } from 'lucide-react';
-import { callTencentTranslation } from '../../utils/api';
-import { findFuzzyMatches } from '../../utils/matching';
+import { RefreshCw, Play, AlertCircle, Zap, SplitSquareHorizontal, Bug, ChevronDown, ChevronRight } from 'lucide-react';
+import { browser } from 'wxt/browser';
+import { TranslationResult } from '../../utils/api';
+import { AGGRESSIVE_SIMILARITY_THRESHOLD } from '../../utils/matching';
+import { createDefinitionIndex } from '../../utils/definition-index';
+import { planReplacements, RichDataCache } from '../../utils/replacement-planner';
+import { traceMatching, SentenceTrace } from '../../utils/match-trace';
+import { wordExposureStorage } from '../../utils/storage';
+import { splitTextIntoSentences } from '../../utils/text-processing';
+import { fetchRichWordDetails } from '../../utils/dictionary-service';
 import { buildReplacementHtml } from '../../utils/dom-builder';
 
 interface PreviewSectionProps {
@@ -14,76 +21,202 @@ interface PreviewSectionProps {
     autoTranslateConfig: AutoTranslateConfig;
 }
 
+const DECISION_REASONS: Record<string, string> = {
+    longer: '更长的匹配优先',
+    category: '分类优先级更高',
+    score: '释义得分更高',
+    earlier: '位置更靠前',
+};
+
+const formatScore = (score: number) => score.toFixed(2);
+
+/**
+ * 匹配诊断：逐句展示分句、对齐译文、通过译文校验的词条、每个释义的比对与最终裁决。
+ */
+const TraceView: React.FC<{ traces: SentenceTrace[] }> = ({ traces }) => (
+    <div className="space-y-4">
+        {traces.map((t, idx) => (
+            <div key={idx} className="bg-slate-50 p-5 rounded-xl border border-slate-100 space-y-3 text-xs">
+                <div>
+                    <span className="font-bold text-slate-400 mr-2">#{idx + 1}</span>
+                    <span className="text-slate-800 text-sm">{t.source}</span>
+                </div>
+                <div className="text-slate-500 font-mono">{t.translation || <span className="italic text-red-500">（无对齐译文）</span>}</div>
+
+                <div>
+                    <span className="font-bold text-slate-500 block mb-1">译文校验通过</span>
+                    {t.contextPassed.length === 0 ? (
+                        <span className="text-slate-400 italic">译文中没有出现单词本里的词</span>
+                    ) : (
+                        <div className="flex flex-wrap gap-1.5">
+                            {t.contextPassed.map(e => (
+                                <span key={e.id} className="px-2 py-0.5 bg-white border border-slate-200 rounded text-slate-700">{e.text}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {t.contextRejected.length > 0 && (
+                    <div>
+                        <span className="font-bold text-slate-500 block mb-1">原文命中但译文校验未通过</span>
+                        {t.contextRejected.map((r, i) => (
+                            <div key={i} className="text-amber-700">"{r.text}" → {r.entry.text}：译文中没有这个词或它的变形</div>
+                        ))}
+                    </div>
+                )}
+
+                {t.attempts.length > 0 && (
+                    <div>
+                        <span className="font-bold text-slate-500 block mb-1">释义比对</span>
+                        <table className="w-full text-left">
+                            <thead className="text-slate-400">
+                                <tr><th className="font-medium py-1">单词</th><th className="font-medium">释义</th><th className="font-medium">结果</th></tr>
+                            </thead>
+                            <tbody>
+                                {t.attempts.map((a, i) => (
+                                    <tr key={i} className="border-t border-slate-100">
+                                        <td className="py-1 text-slate-700">{a.entry.text}</td>
+                                        <td className="text-slate-700">{a.definition}</td>
+                                        <td>
+                                            {a.positions.length > 0 ? (
+                                                <span className="text-green-600">命中 @ {a.positions.join(', ')}</span>
+                                            ) : (
+                                                <span className="text-slate-400">未命中，最接近 "{a.bestSegment || '-'}" 相似度 {formatScore(a.similarity)}</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {(t.aggressive.length > 0 || t.aggressiveSkipped.length > 0) && (
+                    <div>
+                        <span className="font-bold text-slate-500 block mb-1">激进模式 (阈值 {AGGRESSIVE_SIMILARITY_THRESHOLD})</span>
+                        {t.aggressive.map((a, i) => (
+                            <div key={i} className={a.score >= AGGRESSIVE_SIMILARITY_THRESHOLD ? 'text-green-600' : 'text-slate-400'}>
+                                {a.entry.text}：“{a.segment}” vs “{a.definition}” = {formatScore(a.score)}
+                            </div>
+                        ))}
+                        {t.aggressiveSkipped.length > 0 && (
+                            <div className="text-amber-700">未取到词典数据：{t.aggressiveSkipped.join(', ')}</div>
+                        )}
+                    </div>
+                )}
+
+                {t.densityDropped.length > 0 && (
+                    <div>
+                        <span className="font-bold text-slate-500 block mb-1">超出密度上限</span>
+                        {t.densityDropped.map((r, i) => (
+                            <div key={i} className="text-amber-700">"{r.text}" → {r.entry.text}：{r.entry.category} 的替换密度已用完</div>
+                        ))}
+                    </div>
+                )}
+
+                {t.decisions.length > 0 && (
+                    <div>
+                        <span className="font-bold text-slate-500 block mb-1">冲突裁决</span>
+                        {t.decisions.map((d, i) => (
+                            <div key={i} className={d.kept ? 'text-green-600' : 'text-red-500'}>
+                                {d.kept ? '保留' : '舍弃'} "{d.span.text}" → {d.span.entry.text} [{d.span.start}, {d.span.end})
+                                {!d.kept && d.blockedBy && ` ：与 "${d.blockedBy.text}" → ${d.blockedBy.entry.text} 重叠，${DECISION_REASONS[d.reason || 'earlier']}`}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
 export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries, styles, originalTextConfig, autoTranslateConfig }) => {
     const [inputText, setInputText] = useState("我非常喜欢吃苹果，因为它们很健康。");
     const [translatedText, setTranslatedText] = useState("");
     const [replacementResult, setReplacementResult] = useState<React.ReactNode>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [traces, setTraces] = useState<SentenceTrace[]>([]);
+    const [showTrace, setShowTrace] = useState(false);
 
     const handleGeneratePreview = async () => {
         setIsLoading(true);
         setError(null);
         setTranslatedText("");
         setReplacementResult(null);
+        setTraces([]);
 
         try {
-            const activeEngine = engines.find(e => e.isEnabled);
-            if (!activeEngine) throw new Error("请先启用一个翻译引擎");
-
-            // STEP 1: API Call (Full Translation)
-            let apiResult = "";
-            if (activeEngine.id === 'tencent') {
-                const res = await callTencentTranslation(activeEngine, inputText, 'en');
-                apiResult = res.Response?.TargetText || "";
-            } else {
-                 apiResult = "Simulated: I really like eating apples because they are healthy.";
-            }
+            if (!engines.some(e => e.isEnabled)) throw new Error("请先启用一个翻译引擎");
+
+            // STEP 1: API Call (sentence-aligned, through the background like the content script)
+            const sentences = splitTextIntoSentences(inputText);
+            const response: any = await browser.runtime.sendMessage({ action: 'TRANSLATE_TEXT', sentences, target: 'en' });
+            if (!response?.success) throw new Error(response?.error || "翻译失败");
+            const result: TranslationResult = response.data;
+            const transSentences = result.sentences || [];
             // Store for bilingual display if needed
-            setTranslatedText(apiResult);
+            setTranslatedText(result.text);
 
-            if (!apiResult) {
+            if (!result.text) {
                 setReplacementResult(<span>{inputText}</span>);
                 return;
             }
 
-            // STEP 2: Fuzzy Matching with Context Verification
-            // Note: findFuzzyMatches v2 takes the translated text as the 3rd argument
-            const finalMatches = findFuzzyMatches(inputText, entries, apiResult);
+            // STEP 2: Same planner and density step as the content script (incl. aggressive-mode lookups)
+            const index = createDefinitionIndex();
+            index.update(entries);
+            const richData: RichDataCache = {};
+            const request = {
+                fullText: inputText,
+                sourceSentences: sentences,
+                transSentences,
+                matchInflections: autoTranslateConfig.matchInflections,
+                aggressiveMode: autoTranslateConfig.aggressiveMode
+            };
+            const plan = planReplacements(index, entries, richData, request);
+            if (plan.missingRichData.length > 0) {
+                await Promise.all(plan.missingRichData.map(async word => {
+                    try {
+                        // Outside aggressive mode, ambiguous words are scored from cached / offline data only
+                        richData[word] = await fetchRichWordDetails(word, !autoTranslateConfig.aggressiveMode) || null;
+                    } catch (e) {
+                        console.warn("Dictionary lookup failed for", word, e);
+                        richData[word] = null;
+                    }
+                }));
+            }
+            const exposure = await wordExposureStorage.getValue();
+            const trace = traceMatching(index, entries, richData, request, styles, id => exposure[id] || 0);
+            setTraces(trace.sentences);
+            const finalMatches = trace.replacements;
 
-            // STEP 3: Render Mixed Text
-            const sortedEntries = finalMatches.sort((a, b) => b.text.length - a.text.length);
-            
+            // STEP 3: Render Mixed Text (matches are non-overlapping and sorted by position)
             let mixedContent: React.ReactNode;
 
-            if (sortedEntries.length === 0) {
+            if (finalMatches.length === 0) {
                  mixedContent = <span>{inputText}</span>;
             } else {
-                const escapeRegExp = (string: string) => string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                const pattern = new RegExp(`(${sortedEntries.map(e => escapeRegExp(e.text)).join('|')})`, 'g');
-                const parts = inputText.split(pattern);
-                
-                mixedContent = (
-                    <div>
-                        {parts.map((part, idx) => {
-                            const match = sortedEntries.find(e => e.text === part);
-                            if (match) {
-                                // Using buildReplacementHtml to ensure preview matches actual content script logic exactly
-                                const html = buildReplacementHtml(
-                                    match.text,
-                                    match.entry.text,
-                                    match.entry.category,
-                                    styles,
-                                    originalTextConfig,
-                                    match.entry.id
-                                );
-                                
-                                return <span key={idx} dangerouslySetInnerHTML={{__html: html}}></span>;
-                            }
-                            return <span key={idx}>{part}</span>;
-                        })}
-                    </div>
-                );
+                const parts: React.ReactNode[] = [];
+                let cursor = 0;
+                finalMatches.forEach((match, idx) => {
+                    if (match.start > cursor) parts.push(<span key={`t-${idx}`}>{inputText.slice(cursor, match.start)}</span>);
+                    // Using buildReplacementHtml to ensure preview matches actual content script logic exactly
+                    const html = buildReplacementHtml(
+                        match.text,
+                        match.entry.text,
+                        match.entry.category,
+                        styles,
+                        originalTextConfig,
+                        match.entry.id,
+                        match.sense
+                    );
+                    parts.push(<span key={`m-${idx}`} dangerouslySetInnerHTML={{__html: html}}></span>);
+                    cursor = match.end;
+                });
+                if (cursor < inputText.length) parts.push(<span key="t-end">{inputText.slice(cursor)}</span>);
+
+                mixedContent = <div>{parts}</div>;
             }
 
             setReplacementResult(mixedContent);
@@ -178,6 +311,21 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries
                     )}
                 </div>
             </div>
+
+            {traces.length > 0 && (
+                <div className="px-6 pb-6">
+                    <button
+                        onClick={() => setShowTrace(!showTrace)}
+                        className="flex items-center text-sm font-medium text-slate-600 hover:text-blue-600 transition"
+                    >
+                        {showTrace ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                        <Bug className="w-4 h-4 mr-1.5" />
+                        匹配诊断
+                        <span className="ml-2 text-xs text-slate-400 font-normal">为什么某个词没有被替换？逐句查看匹配过程</span>
+                    </button>
+                    {showTrace && <div className="mt-4"><TraceView traces={traces} /></div>}
+                </div>
+            )}
         </section>
     );
 };
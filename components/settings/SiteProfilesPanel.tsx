@@ -0,0 +1,220 @@
+
+import React, { useState } from 'react';
+import { Scenario, SiteOverrides, SiteProfile } from '../../types';
+import { Globe2, Plus, Trash2, ChevronDown, ChevronRight, AlertTriangle, X } from 'lucide-react';
+
+interface SiteProfilesPanelProps {
+  profiles: SiteProfile[];
+  onChange: (profiles: SiteProfile[]) => void;
+  scenarios: Scenario[];
+  droppedLegacyRules?: string[]; // Old blacklist / whitelist entries that couldn't be converted
+  onDismissDropped: () => void;
+}
+
+type TriState = 'inherit' | 'on' | 'off';
+
+const toTriState = (value?: boolean): TriState => value === undefined ? 'inherit' : value ? 'on' : 'off';
+const fromTriState = (value: TriState): boolean | undefined => value === 'inherit' ? undefined : value === 'on';
+
+// Short summary of what a profile changes, shown while it is collapsed
+const describeOverrides = (o: SiteOverrides) => {
+  const parts: string[] = [];
+  if (o.enabled !== undefined) parts.push(o.enabled ? '强制开启' : '关闭');
+  if (o.bilingualMode !== undefined) parts.push(o.bilingualMode ? '双语' : '无双语');
+  if (o.translateWholePage !== undefined) parts.push(o.translateWholePage ? '全页' : '仅正文');
+  if (o.includeSelectors) parts.push('限定区域');
+  if (o.excludeSelectors) parts.push('排除区域');
+  if (o.scenarioIds?.length) parts.push(`${o.scenarioIds.length} 个场景`);
+  if (o.densityPercent !== undefined) parts.push(`密度 ${o.densityPercent}%`);
+  return parts.length > 0 ? parts.join(' · ') : '沿用全局设置';
+};
+
+export const SiteProfilesPanel: React.FC<SiteProfilesPanelProps> = ({ profiles, onChange, scenarios, droppedLegacyRules, onDismissDropped }) => {
+  const [newPattern, setNewPattern] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addProfile = () => {
+    const pattern = newPattern.trim();
+    if (!pattern) return;
+    const profile: SiteProfile = { id: Date.now().toString(36), pattern, overrides: {} };
+    onChange([...profiles, profile]);
+    setExpandedId(profile.id);
+    setNewPattern('');
+  };
+
+  const updateProfile = (id: string, patch: Partial<SiteProfile>) => {
+    onChange(profiles.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const updateOverrides = (profile: SiteProfile, patch: Partial<SiteOverrides>) => {
+    updateProfile(profile.id, { overrides: { ...profile.overrides, ...patch } });
+  };
+
+  const removeProfile = (id: string) => {
+    onChange(profiles.filter(p => p.id !== id));
+  };
+
+  const TriSelect = ({ label, value, onSelect }: { label: string; value?: boolean; onSelect: (v: boolean | undefined) => void }) => (
+    <label className="flex flex-col gap-1 text-[11px] text-slate-500">
+      {label}
+      <select
+        value={toTriState(value)}
+        onChange={e => onSelect(fromTriState(e.target.value as TriState))}
+        className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs bg-white outline-none focus:border-blue-400"
+      >
+        <option value="inherit">沿用全局</option>
+        <option value="on">开启</option>
+        <option value="off">关闭</option>
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-slate-50 rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <Globe2 className="w-4 h-4 text-blue-500" />
+          <h3 className="text-sm font-bold text-slate-800">站点规则</h3>
+        </div>
+        <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{profiles.length} 条规则</span>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        按站点覆盖全局设置。支持 <code className="font-mono">zhihu.com</code> (含子域名)、<code className="font-mono">*.qq.com</code>、<code className="font-mono">example.com/news/*</code>、正则 <code className="font-mono">/^evil\.(com|net)$/</code>；多条命中时越具体的优先。
+      </p>
+
+      {droppedLegacyRules && droppedLegacyRules.length > 0 && (
+        <div className="flex items-start gap-2 mb-4 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <div className="flex-1 min-w-0">
+            旧版黑 / 白名单中以下规则不是有效的正则，未能转换为站点规则：
+            <div className="mt-1 font-mono break-all">{droppedLegacyRules.join('  ')}</div>
+          </div>
+          <button onClick={onDismissDropped} className="text-amber-500 hover:text-amber-700 transition-colors" title="不再提示">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={newPattern}
+          onChange={e => setNewPattern(e.target.value)}
+          placeholder="例如: nytimes.com"
+          className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-100 focus:border-blue-400 outline-none transition-all"
+          onKeyDown={e => e.key === 'Enter' && addProfile()}
+        />
+        <button onClick={addProfile} className="flex items-center px-3 py-2 bg-slate-800 text-white rounded-lg text-xs hover:bg-slate-700 transition shadow-sm">
+          <Plus className="w-3.5 h-3.5 mr-1" /> 添加
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {profiles.length === 0 && (
+          <div className="flex flex-col items-center justify-center text-slate-300 py-8 bg-white border border-slate-200 rounded-lg">
+            <Globe2 className="w-8 h-8 mb-2 opacity-20" />
+            <span className="text-xs">暂无站点规则</span>
+          </div>
+        )}
+        {profiles.map(profile => {
+          const o = profile.overrides;
+          const expanded = expandedId === profile.id;
+          return (
+            <div key={profile.id} className="bg-white border border-slate-200 rounded-lg">
+              <div className="flex items-center gap-2 px-3 py-2 cursor-pointer" onClick={() => setExpandedId(expanded ? null : profile.id)}>
+                {expanded ? <ChevronDown className="w-3.5 h-3.5 text-slate-400" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-400" />}
+                <span className="font-mono text-xs text-slate-700 truncate">{profile.pattern}</span>
+                <span className="ml-auto text-[10px] text-slate-400 truncate">{describeOverrides(o)}</span>
+                <button
+                  onClick={e => { e.stopPropagation(); removeProfile(profile.id); }}
+                  className="text-slate-400 hover:text-red-500 transition-colors"
+                  title="删除规则"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {expanded && (
+                <div className="border-t border-slate-100 p-3 space-y-3">
+                  <label className="flex flex-col gap-1 text-[11px] text-slate-500">
+                    匹配模式
+                    <input
+                      type="text"
+                      value={profile.pattern}
+                      onChange={e => updateProfile(profile.id, { pattern: e.target.value })}
+                      className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs font-mono outline-none focus:border-blue-400"
+                    />
+                  </label>
+
+                  <div className="grid grid-cols-3 gap-3">
+                    <TriSelect label="自动翻译" value={o.enabled} onSelect={v => updateOverrides(profile, { enabled: v })} />
+                    <TriSelect label="双语对照" value={o.bilingualMode} onSelect={v => updateOverrides(profile, { bilingualMode: v })} />
+                    <TriSelect label="翻译全页" value={o.translateWholePage} onSelect={v => updateOverrides(profile, { translateWholePage: v })} />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-[11px] text-slate-500">
+                      只翻译这些区域 (CSS 选择器)
+                      <input
+                        type="text"
+                        value={o.includeSelectors || ''}
+                        onChange={e => updateOverrides(profile, { includeSelectors: e.target.value || undefined })}
+                        placeholder=".article-body, #content"
+                        className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs font-mono outline-none focus:border-blue-400"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[11px] text-slate-500">
+                      跳过这些区域 (CSS 选择器)
+                      <input
+                        type="text"
+                        value={o.excludeSelectors || ''}
+                        onChange={e => updateOverrides(profile, { excludeSelectors: e.target.value || undefined })}
+                        placeholder=".comments, .sidebar"
+                        className="px-2 py-1.5 border border-slate-300 rounded-lg text-xs font-mono outline-none focus:border-blue-400"
+                      />
+                    </label>
+                  </div>
+
+                  <div className="flex flex-col gap-1 text-[11px] text-slate-500">
+                    只替换这些场景的词 (不选则全部)
+                    <div className="flex flex-wrap gap-1.5">
+                      {scenarios.map(s => {
+                        const selected = o.scenarioIds?.includes(s.id) ?? false;
+                        return (
+                          <button
+                            key={s.id}
+                            onClick={() => {
+                              const next = selected ? (o.scenarioIds || []).filter(id => id !== s.id) : [...(o.scenarioIds || []), s.id];
+                              updateOverrides(profile, { scenarioIds: next.length > 0 ? next : undefined });
+                            }}
+                            className={`px-2 py-1 rounded-full text-[11px] border transition-colors ${selected ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                          >
+                            {s.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-[11px] text-slate-500">
+                    替换密度
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={o.densityPercent ?? ''}
+                      onChange={e => updateOverrides(profile, { densityPercent: e.target.value === '' ? undefined : Math.max(0, Math.min(100, Number(e.target.value))) })}
+                      placeholder="全局"
+                      className="w-20 px-2 py-1.5 border border-slate-300 rounded-lg text-xs outline-none focus:border-blue-400"
+                    />
+                    % (留空沿用各分类的密度设置)
+                  </label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -5,9 +5,11 @@ import { createPortal } from 'react-dom';
 import { Loader2, Wand2, Volume2, Save, Search, Youtube, Layers, Star, Edit3, ImageOff, Sparkles, Tag, BookOpenCheck } from 'lucide-react';
 import { WordEntry, RichDictionaryResult, DictionaryMeaningCard, WordCategory } from '../../types';
 import { fetchRichWordDetails } from '../../utils/dictionary-service';
+import { generateInflections } from '../../utils/morphology';
 import { playWordAudio } from '../../utils/audio';
 import { browser } from 'wxt/browser';
 import { Toast, ToastMessage } from '../ui/Toast';
+import { DICTIONARY_SOURCE_LABELS } from '../../constants';
 
 interface AddWordModalProps {
   isOpen: boolean;
@@ -222,7 +224,11 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
               
               partOfSpeech: card.partOfSpeech,
 
-              inflections: [...new Set([...searchResult.inflections, ...card.inflections])],
+              inflections: (() => {
+                  const forms = [...new Set([...searchResult.inflections, ...card.inflections])];
+                  // Dictionaries often omit forms; fall back to rule-based ones so matching still works
+                  return forms.length > 0 ? forms : generateInflections(searchResult.text, card.partOfSpeech);
+              })(),
               
               dictionaryExample: card.example,
               dictionaryExampleTranslation: card.exampleTrans,
@@ -507,6 +513,13 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
                                                             />
                                                             <Edit3 className="w-3 h-3 text-slate-300 absolute right-0 top-1 opacity-0 group-hover/input:opacity-100 pointer-events-none"/>
                                                         </div>
+
+                                                        {card.source && (
+                                                            <div className="text-[10px] text-slate-400 px-1">
+                                                                来源: {DICTIONARY_SOURCE_LABELS[card.source]}
+                                                                {card.supplementedBy && card.supplementedBy.length > 0 && ` · 英文释义补充自 ${card.supplementedBy.map(s => DICTIONARY_SOURCE_LABELS[s]).join(', ')}`}
+                                                            </div>
+                                                        )}
                                                     </div>
 
                                                     {/* Meta: Star & COCA & Tags */}
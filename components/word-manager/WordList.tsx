@@ -2,8 +2,8 @@
 
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { WordEntry, WordCategory, MergeStrategyConfig } from '../../types';
-import { PlayCircle, MapPin, ExternalLink, Filter, BarChart2, Star, Youtube, Image as ImageIcon } from 'lucide-react';
+import { WordEntry, WordCategory, MergeStrategyConfig, PhraseItem } from '../../types';
+import { PlayCircle, MapPin, ExternalLink, Filter, BarChart2, Star, Youtube, Image as ImageIcon, Plus, Check } from 'lucide-react';
 import { playWordAudio, playSentenceAudio } from '../../utils/audio';
 
 interface WordListProps {
@@ -16,17 +16,24 @@ interface WordListProps {
     isAllWordsTab: boolean;
     searchQuery: string;
     ttsSpeed?: number;
+    onAddPhrase?: (parent: WordEntry, phrase: PhraseItem) => void; // Save a phrase as its own wordbook entry
+    isPhraseSaved?: (phrase: PhraseItem) => boolean;
 }
 
-const InfoTag: React.FC<{ text: string, trans: string }> = ({ text, trans }) => (
+const InfoTag: React.FC<{ text: string, trans: string, onAdd?: () => void, isSaved?: boolean }> = ({ text, trans, onAdd, isSaved }) => (
     <div className="inline-flex items-center px-2 py-0.5 bg-slate-50 border border-slate-200 rounded text-xs text-slate-600 mr-2 mb-1 cursor-help hover:border-blue-300 transition" title={trans}>
         <span className="font-medium mr-1">{text}</span>
+        {isSaved ? (
+            <Check className="w-3 h-3 text-green-500" />
+        ) : onAdd && (
+            <button onClick={onAdd} className="text-slate-400 hover:text-blue-600 transition" title="作为短语加入单词本，页面中也会替换"><Plus className="w-3 h-3" /></button>
+        )}
     </div>
 );
 
 export const WordList: React.FC<WordListProps> = ({ 
     groupedEntries, selectedWords, toggleSelectGroup, isGroupSelected,
-    showConfig, mergeConfig, searchQuery, ttsSpeed = 1.0 
+    showConfig, mergeConfig, searchQuery, ttsSpeed = 1.0, onAddPhrase, isPhraseSaved
 }) => {
     
     // Image Preview State
@@ -176,7 +183,15 @@ export const WordList: React.FC<WordListProps> = ({
                                        <div className="absolute left-0 top-3 w-1 h-8 bg-indigo-500 rounded-r"></div>
                                        <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1.5 pl-2">常用短语 (Phrases)</span>
                                        <div className="flex flex-wrap pl-2">
-                                           {primary.phrases.map((p, i) => <InfoTag key={i} text={p.text} trans={p.trans} />)}
+                                           {primary.phrases.map((p, i) => (
+                                               <InfoTag 
+                                                   key={i} 
+                                                   text={p.text} 
+                                                   trans={p.trans} 
+                                                   isSaved={isPhraseSaved?.(p)}
+                                                   onAdd={onAddPhrase ? () => onAddPhrase(primary, p) : undefined}
+                                               />
+                                           ))}
                                        </div>
                                    </div>
                                )}
@@ -1,5 +1,5 @@
 
-import { StyleConfig, WordCategory, Scenario, TranslationEngine, WordInteractionConfig, PageWidgetConfig, AnkiConfig, OriginalTextConfig, MergeStrategyConfig, AutoTranslateConfig, DictionaryEngine } from './types';
+import { StyleConfig, WordCategory, Scenario, TranslationEngine, WordInteractionConfig, PageWidgetConfig, AnkiConfig, OriginalTextConfig, MergeStrategyConfig, AutoTranslateConfig, DictionaryEngine, DictionaryCardSource } from './types';
 
 export const DEFAULT_STYLE: StyleConfig = {
   color: '#000000',
@@ -43,6 +43,13 @@ export const DEFAULT_STYLES: Record<WordCategory, StyleConfig> = {
   [WordCategory.LearningWord]: { ...DEFAULT_STYLE, color: '#b91c1c', backgroundColor: '#fef2f2', isBold: true }, 
 };
 
+// Tie-break for overlapping matches of equal length: words being learned win over known ones
+export const CATEGORY_MATCH_PRIORITY: Record<WordCategory, number> = {
+  [WordCategory.LearningWord]: 3,
+  [WordCategory.WantToLearnWord]: 2,
+  [WordCategory.KnownWord]: 1,
+};
+
 export const INITIAL_SCENARIOS: Scenario[] = [
   { id: '1', name: '通用英语', isActive: true, isCustom: false },
   { id: '2', name: '雅思 / 托福', isActive: false, isCustom: false },
@@ -63,14 +70,19 @@ export const INITIAL_ENGINES: TranslationEngine[] = [
     projectId: 0
   },
   { id: 'google', name: 'Google 翻译', type: 'standard', isEnabled: false, endpoint: 'https://translation.googleapis.com/language/translate/v2' },
-  { id: 'gemini', name: 'Google Gemini', type: 'ai', isEnabled: false, apiKey: '', model: 'gemini-2.5-flash' },
-  { id: 'deepl', name: 'DeepL API', type: 'standard', isEnabled: false, apiKey: '', endpoint: 'https://api-free.deepl.com/v2/translate' },
+  { id: 'gemini', name: 'Google Gemini', type: 'ai', isEnabled: false, apiKey: '', model: 'gemini-2.5-flash', endpoint: 'https://generativelanguage.googleapis.com/v1beta/openai' },
+  { id: 'ollama', name: 'Ollama (本地模型)', type: 'ai', isEnabled: false, apiKey: '', model: 'qwen2.5:7b', endpoint: 'http://localhost:11434/v1', temperature: 0.2 },
+  { id: 'deepl', name: 'DeepL API', type: 'standard', isEnabled: false, apiKey: '', endpoint: '' },
   { id: 'volcengine', name: '字节火山引擎', type: 'standard', isEnabled: false, apiKey: '', secretKey: '' },
   { id: 'baidu', name: '百度翻译', type: 'standard', isEnabled: false, appId: '', secretKey: '' },
   { id: 'iflytek', name: '科大讯飞', type: 'standard', isEnabled: false, appId: '', apiKey: '', secretKey: '' },
   { id: 'custom-mock', name: '模拟翻译 (无需 Key)', type: 'standard', isEnabled: false },
 ];
 
+export const DEFAULT_AI_SYSTEM_PROMPT = `You are a professional translator. The user sends a JSON array of sentences. Translate every sentence into {target}.
+Reply with JSON only, in the form {"translations": ["...", "..."]}, containing exactly one translated string per input sentence in the same order.
+Never merge, split, skip or explain sentences.`;
+
 export const INITIAL_DICTIONARIES: DictionaryEngine[] = [
   { 
     id: 'youdao', 
@@ -88,7 +100,7 @@ export const INITIAL_DICTIONARIES: DictionaryEngine[] = [
     link: 'http://www.iciba.com/',
     isEnabled: true, 
     priority: 2, // ICBA is #2
-    description: '经典词典，包含英/美音标及双语例句。'
+    description: '经典词典，包含英/美音标及双语例句。需填写开放平台 Key。'
   },
   { 
     id: 'free-dict', 
@@ -110,6 +122,28 @@ export const INITIAL_DICTIONARIES: DictionaryEngine[] = [
   }
 ];
 
+// Shown on meaning cards so users know which dictionary each definition came from
+export const DICTIONARY_SOURCE_LABELS: Record<DictionaryCardSource, string> = {
+  collins: '有道·柯林斯',
+  expand_ec: '有道·高阶',
+  ec: '有道·基础',
+  iciba: '金山词霸',
+  'free-dict': 'Free Dictionary',
+  wiktionary: 'Wiktionary',
+  offline: '离线词典',
+};
+
+// Not part of INITIAL_DICTIONARIES: added to the list once a pack has been imported
+export const OFFLINE_DICTIONARY: DictionaryEngine = {
+  id: 'offline',
+  name: '离线词典 (ECDICT)',
+  endpoint: 'indexeddb://context-lingo-offline-dict',
+  link: 'https://github.com/skywind3000/ECDICT',
+  isEnabled: true,
+  priority: 0, // Ahead of Youdao: no network, no rate limits
+  description: '本地导入的 ECDICT 词库，离线可用，包含音标、考试标签、柯林斯星级与 COCA 词频。'
+};
+
 export const DEFAULT_WORD_INTERACTION: WordInteractionConfig = {
   mainTrigger: { modifier: 'None', action: 'Hover', delay: 600 },
   quickAddTrigger: { modifier: 'Alt', action: 'DoubleClick', delay: 0 },
@@ -124,6 +158,7 @@ export const DEFAULT_WORD_INTERACTION: WordInteractionConfig = {
   dismissDelay: 300,
   allowMultipleBubbles: false,
   onlineDictUrl: '', // Default empty
+  selectionLookupButton: false, // The context menu is always there; the button is opt-in
 };
 
 export const DEFAULT_PAGE_WIDGET: PageWidgetConfig = {
@@ -172,8 +207,13 @@ export const DEFAULT_AUTO_TRANSLATE: AutoTranslateConfig = {
   translateWholePage: false,
   matchInflections: true, // Default Enabled
   aggressiveMode: false, // Default Disabled
-  blacklist: ['google.com', 'baidu.com'], 
-  whitelist: ['nytimes.com', 'medium.com'],
+  englishPageMode: false,
+  lazyTranslate: true,
+  lazyPrefetchMargin: 800,
+  siteProfiles: [
+    { id: 'google.com', pattern: 'google.com', overrides: { enabled: false } },
+    { id: 'baidu.com', pattern: 'baidu.com', overrides: { enabled: false } },
+  ],
   ttsSpeed: 1.0,
 };
 
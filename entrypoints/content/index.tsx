@@ -3,16 +3,24 @@ import ReactDOM from 'react-dom/client';
 import React, { useState, useEffect, useRef } from 'react';
 import { PageWidget } from '../../components/PageWidget';
 import { WordBubble } from '../../components/WordBubble';
+import { SelectionLookupButton, SelectionLookupCard } from '../../components/SelectionLookupCard';
 import '../../index.css'; 
-import { entriesStorage, pageWidgetConfigStorage, autoTranslateConfigStorage, stylesStorage, originalTextConfigStorage, enginesStorage, interactionConfigStorage } from '../../utils/storage';
-import { WordEntry, PageWidgetConfig, WordInteractionConfig, WordCategory, AutoTranslateConfig, ModifierKey, StyleConfig, OriginalTextConfig } from '../../types';
+import { entriesStorage, scenariosStorage, pageWidgetConfigStorage, autoTranslateConfigStorage, stylesStorage, originalTextConfigStorage, enginesStorage, interactionConfigStorage, wordExposureStorage } from '../../utils/storage';
+import { WordEntry, ContentMessage, MessageResponse, Scenario, RichDictionaryResult, PageWidgetConfig, WordInteractionConfig, WordCategory, AutoTranslateConfig, ModifierKey, StyleConfig, OriginalTextConfig } from '../../types';
 import { defineContentScript } from 'wxt/sandbox';
 import { createShadowRootUi } from 'wxt/client';
-import { findFuzzyMatches, findAggressiveMatches } from '../../utils/matching';
-import { buildReplacementHtml } from '../../utils/dom-builder';
+import { buildReplacementHtml, toGlossLayout } from '../../utils/dom-builder';
 import { browser } from 'wxt/browser';
 import { preloadVoices, unlockAudio } from '../../utils/audio';
-import { splitTextIntoSentences, normalizeEnglishText } from '../../utils/text-processing';
+import { splitTextIntoSentences, hashText } from '../../utils/text-processing';
+import { createDensityController, recordWordExposure } from '../../utils/density';
+import { createMatchWorkerClient } from '../../utils/match-worker-client';
+import { ChosenSense } from '../../utils/sense-scorer';
+import { DEFAULT_AUTO_TRANSLATE } from '../../constants';
+import { collectOpenShadowRoots, deepQuerySelectorAll, getEventTargetElement, getSameOriginFrameDocument, toTopFrameRect } from '../../utils/dom-roots';
+import { createReplacementJournal, ReplacementJournal } from '../../utils/replacement-journal';
+import { captureSelectionContext, captureSourceLocation, findSentenceContaining, getActiveSelection, isLookupCandidate } from '../../utils/selection-capture';
+import { applySiteDensity, applySiteOverrides, isInSiteScenarios, resolveSiteOverrides, toValidSelector } from '../../utils/site-profiles';
 
 // --- Overlay App Component (Manages Widget & Bubbles) ---
 interface ContentOverlayProps {
@@ -20,6 +28,7 @@ interface ContentOverlayProps {
   initialEntries: WordEntry[];
   initialInteractionConfig: WordInteractionConfig;
   initialAutoTranslateConfig: AutoTranslateConfig; 
+  journal: ReplacementJournal;
 }
 
 interface ActiveBubble {
@@ -28,24 +37,56 @@ interface ActiveBubble {
     originalText: string;
     rect: DOMRect;
     triggerElement?: HTMLElement; // The element that triggered this bubble
+    sense?: ChosenSense; // Meaning picked for this occurrence
 }
 
+// Selected text waiting for (or shown in) the lookup card
+interface SelectionLookup {
+    text: string;
+    rect: DOMRect;
+    context: Partial<WordEntry>; // Read while the selection still exists
+}
+
+// The current selection, if it looks like something to look up
+const readSelectionLookup = (): SelectionLookup | null => {
+    const selection = getActiveSelection();
+    if (!selection || !isLookupCandidate(selection.text)) return null;
+    return { text: selection.text, rect: toTopFrameRect(selection.range), context: captureSelectionContext(selection) };
+};
+
+// Document listeners see events from inside our shadow UI retargeted to its host
+const isFromOwnUi = (e: Event) => (e.target as Element | null)?.tagName === 'CONTEXT-LINGO-UI';
+
+// Sense recorded on a replaced span by buildReplacementHtml
+const readSense = (entryEl: HTMLElement): ChosenSense | undefined => {
+    const meaning = entryEl.getAttribute('data-sense-meaning');
+    if (!meaning) return undefined;
+    return { partOfSpeech: entryEl.getAttribute('data-sense-pos') || '', meaning };
+};
+
 const ContentOverlay: React.FC<ContentOverlayProps> = ({ 
     initialWidgetConfig, 
     initialEntries, 
     initialInteractionConfig,
-    initialAutoTranslateConfig 
+    initialAutoTranslateConfig,
+    journal
 }) => {
   const [widgetConfig, setWidgetConfig] = useState(initialWidgetConfig);
   const [interactionConfig, setInteractionConfig] = useState(initialInteractionConfig);
   const [autoTranslateConfig, setAutoTranslateConfig] = useState(initialAutoTranslateConfig);
   const [entries, setEntries] = useState(initialEntries);
+  const [replacementsShown, setReplacementsShown] = useState(journal.isApplied());
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
   
   // Widget Logic
   const [pageWords, setPageWords] = useState<WordEntry[]>([]);
 
   // Bubble Logic
   const [activeBubbles, setActiveBubbles] = useState<ActiveBubble[]>([]);
+
+  // Selection Lookup
+  const [selectionButton, setSelectionButton] = useState<SelectionLookup | null>(null);
+  const [selectionLookup, setSelectionLookup] = useState<SelectionLookup | null>(null);
   
   // Timers
   const showTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -63,8 +104,10 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
         pageWidgetConfigStorage.watch(v => v && setWidgetConfig(v)),
         interactionConfigStorage.watch(v => v && setInteractionConfig(v)),
         entriesStorage.watch(v => v && setEntries(v)),
-        autoTranslateConfigStorage.watch(v => v && setAutoTranslateConfig(v)) 
+        autoTranslateConfigStorage.watch(v => v && setAutoTranslateConfig(v)),
+        scenariosStorage.watch(v => v && setScenarios(v))
     ];
+    scenariosStorage.getValue().then(setScenarios);
 
     const pageContent = document.body.innerText;
     const relevant = entries.filter(e => pageContent.includes(e.translation || ''));
@@ -73,6 +116,12 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
     return () => unsubs.forEach(u => u());
   }, [entries]);
 
+  useEffect(() => journal.subscribe(applied => {
+      setReplacementsShown(applied);
+      // Bubbles point at spans that are no longer on the page
+      if (!applied) setActiveBubbles([]);
+  }), []);
+
   useEffect(() => {
       if (activeBubbles.length > 0) {
           const newBubbles = activeBubbles.map(b => {
@@ -107,6 +156,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
   };
 
   const addBubble = (entry: WordEntry, originalText: string, rect: DOMRect, triggerElement: HTMLElement) => {
+      const sense = readSense(triggerElement);
       const config = interactionConfigRef.current;
       if (hideTimers.current.has(entry.id)) {
           clearTimeout(hideTimers.current.get(entry.id)!);
@@ -117,10 +167,10 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
           const exists = prev.find(b => b.id === entry.id);
           if (!config.allowMultipleBubbles) {
               if (prev.length === 1 && exists) return prev;
-              return [{ id: entry.id, entry, originalText, rect, triggerElement }];
+              return [{ id: entry.id, entry, originalText, rect, triggerElement, sense }];
           } else {
               if (exists) return prev;
-              return [...prev, { id: entry.id, entry, originalText, rect, triggerElement }];
+              return [...prev, { id: entry.id, entry, originalText, rect, triggerElement, sense }];
           }
       });
   };
@@ -138,11 +188,20 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
   };
 
   useEffect(() => {
+     // Same-origin iframes replace words through their own content script; their events are delegated here
+     const delegatedDocs = new Set<Document>();
+
      const handleMouseOver = (e: MouseEvent) => {
          const config = interactionConfigRef.current;
          const currentEntries = entriesRef.current;
          
-         const target = e.target as HTMLElement;
+         const target = getEventTargetElement(e);
+         if (!target) return;
+         if (target.tagName === 'IFRAME') {
+             const frameDoc = getSameOriginFrameDocument(target as HTMLIFrameElement);
+             if (frameDoc) attach(frameDoc);
+             return;
+         }
          const entryEl = target.closest('[data-entry-id]') as HTMLElement;
          
          if (entryEl) {
@@ -162,7 +221,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
                          
                          const delay = config.mainTrigger.delay;
                          showTimer.current = setTimeout(() => {
-                            addBubble(entry, originalText, entryEl.getBoundingClientRect(), entryEl);
+                            addBubble(entry, originalText, toTopFrameRect(entryEl), entryEl);
                          }, delay);
                      }
                  }
@@ -171,8 +230,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
      };
 
      const handleMouseOut = (e: MouseEvent) => {
-        const target = e.target as HTMLElement;
-        const entryEl = target.closest('[data-entry-id]');
+        const entryEl = getEventTargetElement(e)?.closest('[data-entry-id]');
         if (entryEl) {
             const id = entryEl.getAttribute('data-entry-id');
             if (showTimer.current) {
@@ -187,8 +245,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
          const config = interactionConfigRef.current;
          
          if (config.mainTrigger.action === actionType && checkModifier(e, config.mainTrigger.modifier)) {
-            const target = e.target as HTMLElement;
-            const entryEl = target.closest('[data-entry-id]') as HTMLElement;
+            const entryEl = getEventTargetElement(e)?.closest('[data-entry-id]') as HTMLElement;
             if (entryEl) {
                 const currentEntries = entriesRef.current;
                 const id = entryEl.getAttribute('data-entry-id');
@@ -197,7 +254,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
                 if (entry) {
                     if (actionType === 'RightClick') e.preventDefault();
                     if (showTimer.current) clearTimeout(showTimer.current);
-                    addBubble(entry, originalText, entryEl.getBoundingClientRect(), entryEl);
+                    addBubble(entry, originalText, toTopFrameRect(entryEl), entryEl);
                     return; 
                 }
             }
@@ -205,8 +262,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
          
          // Quick Add Trigger Logic
          if (config.quickAddTrigger.action === actionType && checkModifier(e, config.quickAddTrigger.modifier)) {
-            const target = e.target as HTMLElement;
-            const entryEl = target.closest('[data-entry-id]') as HTMLElement;
+            const entryEl = getEventTargetElement(e)?.closest('[data-entry-id]') as HTMLElement;
             if (entryEl) {
                 const id = entryEl.getAttribute('data-entry-id');
                 if (id) {
@@ -217,25 +273,65 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
          }
      };
 
+     const handleMouseDown = (e: MouseEvent) => {
+         if (isFromOwnUi(e)) return;
+         setSelectionButton(null);
+         setSelectionLookup(null);
+     };
+
+     const handleMouseUp = (e: MouseEvent) => {
+         if (isFromOwnUi(e) || !interactionConfigRef.current.selectionLookupButton) return;
+         // A click inside a selection clears it only after mouseup has been dispatched
+         setTimeout(() => setSelectionButton(readSelectionLookup()), 0);
+     };
+
      const handleClick = (e: MouseEvent) => handleTriggerEvent(e, 'Click');
      const handleDblClick = (e: MouseEvent) => handleTriggerEvent(e, 'DoubleClick');
      const handleContextMenu = (e: MouseEvent) => handleTriggerEvent(e, 'RightClick');
 
-     document.addEventListener('mouseover', handleMouseOver);
-     document.addEventListener('mouseout', handleMouseOut);
-     document.addEventListener('click', handleClick);
-     document.addEventListener('dblclick', handleDblClick);
-     document.addEventListener('contextmenu', handleContextMenu);
+     const attach = (doc: Document) => {
+         if (delegatedDocs.has(doc)) return;
+         delegatedDocs.add(doc);
+         doc.addEventListener('mouseover', handleMouseOver);
+         doc.addEventListener('mouseout', handleMouseOut);
+         doc.addEventListener('click', handleClick);
+         doc.addEventListener('dblclick', handleDblClick);
+         doc.addEventListener('contextmenu', handleContextMenu);
+         doc.addEventListener('mousedown', handleMouseDown);
+         doc.addEventListener('mouseup', handleMouseUp);
+     };
+
+     attach(document);
 
      return () => {
-         document.removeEventListener('mouseover', handleMouseOver);
-         document.removeEventListener('mouseout', handleMouseOut);
-         document.removeEventListener('click', handleClick);
-         document.removeEventListener('dblclick', handleDblClick);
-         document.removeEventListener('contextmenu', handleContextMenu);
+         delegatedDocs.forEach(doc => {
+             doc.removeEventListener('mouseover', handleMouseOver);
+             doc.removeEventListener('mouseout', handleMouseOut);
+             doc.removeEventListener('click', handleClick);
+             doc.removeEventListener('dblclick', handleDblClick);
+             doc.removeEventListener('contextmenu', handleContextMenu);
+             doc.removeEventListener('mousedown', handleMouseDown);
+             doc.removeEventListener('mouseup', handleMouseUp);
+         });
+         delegatedDocs.clear();
      };
   }, []);
 
+  // Context menu "look up": the selection may sit in a cross-origin frame we can't read, then only the text is known
+  useEffect(() => {
+      const listener = (raw: unknown) => {
+          const message = raw as ContentMessage;
+          if (message.action !== 'LOOKUP_SELECTION') return;
+          const found = readSelectionLookup();
+          const text = String(message.text || '').trim();
+          setSelectionButton(null);
+          if (found && (!text || found.text === text)) setSelectionLookup(found);
+          else if (text) setSelectionLookup({ text, rect: new DOMRect(window.innerWidth / 2, 60, 0, 0), context: captureSourceLocation() });
+      };
+      browser.runtime.onMessage.addListener(listener);
+      return () => browser.runtime.onMessage.removeListener(listener);
+  }, []);
+
   const handleBubbleMouseEnter = (id: string) => {
       if (hideTimers.current.has(id)) {
           clearTimeout(hideTimers.current.get(id)!);
@@ -259,8 +355,6 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
       let contextSentence = entry.contextSentence || '';
       let mixedSentence = '';
       let contextSentenceTranslation = '';
-      let sourceUrl = window.location.href;
-      let sourceTimestamp = 0;
 
       if (block) {
           contextParagraph = block.getAttribute('data-lingo-source') || '';
@@ -271,50 +365,18 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
           // Try to find the sentence in the original paragraph that contains the translation
           // This is a best-effort heuristic.
           if (entry.translation && contextParagraph) {
-               const sentences = contextParagraph.split(/([。！？.!?\n]+)/);
-               // Simple reconstruction
-               let found = '';
-               for (let i = 0; i < sentences.length; i += 2) {
-                   const sent = sentences[i] + (sentences[i+1] || '');
-                   if (sent.includes(entry.translation)) {
-                       found = sent.trim();
-                       break;
-                   }
-               }
+               const found = findSentenceContaining(contextParagraph, entry.translation);
                if (found) contextSentence = found;
           }
 
           // Mixed Sentence Strategy
           // Find the sentence in the mixed paragraph that contains the target element text
           // Since targetEl is replaced, we can look for the replaced text
-          const targetText = targetEl.innerText;
-          const mixedSentences = mixedParagraph.split(/([。！？.!?\n]+)/);
-          for (let i = 0; i < mixedSentences.length; i += 2) {
-               const sent = mixedSentences[i] + (mixedSentences[i+1] || '');
-               if (sent.includes(targetText)) {
-                   mixedSentence = sent.trim();
-                   break;
-               }
-          }
+          mixedSentence = findSentenceContaining(mixedParagraph, targetEl.innerText);
       }
 
       // 2. Video Timestamp
-      const video = document.querySelector('video');
-      if (video && !video.paused) {
-          sourceTimestamp = Math.floor(video.currentTime);
-          
-          const urlObj = new URL(window.location.href);
-          const hostname = urlObj.hostname;
-          
-          if (hostname.includes('youtube.com')) {
-              urlObj.searchParams.set('t', sourceTimestamp + 's');
-              sourceUrl = urlObj.toString();
-          } else if (hostname.includes('bilibili.com')) {
-              // Bilibili usually uses ?t= or &t=
-              urlObj.searchParams.set('t', String(sourceTimestamp));
-              sourceUrl = urlObj.toString();
-          }
-      }
+      const { sourceUrl, sourceTimestamp } = captureSourceLocation();
 
       return {
           contextParagraph,
@@ -347,6 +409,25 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
       setEntries(newEntries);
   };
   
+  /**
+   * Adds a looked-up selection. The same word with the same meaning already in the
+   * list only gets the new category, scenario and context, like a quick add.
+   */
+  const handleSelectionAdd = async (dictionaryEntry: Partial<WordEntry>, capture: Partial<WordEntry>) => {
+      const allEntries = await entriesStorage.getValue();
+      const existing = allEntries.find(e => e.text.toLowerCase() === dictionaryEntry.text?.toLowerCase() && e.translation === dictionaryEntry.translation);
+
+      const newEntries = existing
+          ? allEntries.map(e => e.id === existing.id ? { ...e, ...capture } : e)
+          : [{
+              id: `selection-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+              ...dictionaryEntry,
+              ...capture
+          } as WordEntry, ...allEntries];
+      await entriesStorage.setValue(newEntries);
+      setEntries(newEntries);
+  };
+
   // Handler for Bubble "Add" button
   const handleBubbleAdd = (id: string) => {
       const bubble = activeBubbles.find(b => b.id === id);
@@ -355,7 +436,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
 
   const handleBatchAdd = (ids: string[]) => {
       ids.forEach(id => {
-          const el = document.querySelector(`[data-entry-id="${id}"]`) as HTMLElement;
+          const el = deepQuerySelectorAll(`[data-entry-id="${id}"]`, { frames: true })[0];
           handleCaptureAndAdd(id, el);
       });
   };
@@ -374,6 +455,8 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
           pageWords={pageWords}
           setPageWords={setPageWords}
           onBatchAddToLearning={handleBatchAdd}
+          replacementsShown={replacementsShown}
+          onToggleReplacements={journal.toggle}
        />
 
        {activeBubbles.map(bubble => (
@@ -381,6 +464,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
               key={bubble.id}
               entry={bubble.entry}
               originalText={bubble.originalText}
+              sense={bubble.sense}
               targetRect={bubble.rect}
               config={interactionConfig}
               isVisible={true} 
@@ -390,6 +474,31 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
               ttsSpeed={autoTranslateConfig.ttsSpeed} 
            />
        ))}
+
+       {selectionButton && !selectionLookup && (
+           <SelectionLookupButton
+              targetRect={selectionButton.rect}
+              onClick={() => {
+                  setSelectionLookup(selectionButton);
+                  setSelectionButton(null);
+              }}
+           />
+       )}
+
+       {selectionLookup && (
+           <SelectionLookupCard
+              key={selectionLookup.text}
+              text={selectionLookup.text}
+              targetRect={selectionLookup.rect}
+              context={selectionLookup.context}
+              entries={entries}
+              scenarios={scenarios}
+              config={interactionConfig}
+              onAdd={handleSelectionAdd}
+              onClose={() => setSelectionLookup(null)}
+              ttsSpeed={autoTranslateConfig.ttsSpeed}
+           />
+       )}
     </div>
   );
 };
@@ -397,152 +506,241 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
 
 export default defineContentScript({
   matches: ['<all_urls>'],
+  allFrames: true,
   cssInjectionMode: 'ui',
 
   async main(ctx) {
+    // Same-origin frames replace words in their own document; the top frame's overlay handles their bubbles
+    const isTopFrame = window === window.top;
+    if (!isTopFrame) {
+        try {
+            void window.top!.location.href;
+        } catch {
+            return; // Cross-origin frame: no overlay could ever reach it
+        }
+    }
+
     console.log('ContextLingo: Content Script Initializing on', window.location.href);
-    preloadVoices();
+    if (isTopFrame) preloadVoices();
 
     let currentEntries = await entriesStorage.getValue();
     let currentWidgetConfig = await pageWidgetConfigStorage.getValue();
-    let currentAutoTranslate = await autoTranslateConfigStorage.getValue();
-    let currentStyles = await stylesStorage.getValue();
+    let globalAutoTranslate = await autoTranslateConfigStorage.getValue();
+    let globalStyles = await stylesStorage.getValue();
     let currentOriginalTextConfig = await originalTextConfigStorage.getValue();
     let currentEngines = await enginesStorage.getValue();
     let currentInteractionConfig = await interactionConfigStorage.getValue();
-
-    autoTranslateConfigStorage.watch((newVal) => { if(newVal) currentAutoTranslate = newVal; });
-
-    if (currentAutoTranslate.blacklist.includes('.*\\.cn$')) {
-        currentAutoTranslate.blacklist = currentAutoTranslate.blacklist.filter(s => s !== '.*\\.cn$');
-        await autoTranslateConfigStorage.setValue(currentAutoTranslate);
-    }
+    let currentExposure = await wordExposureStorage.getValue();
+
+    // 站点规则叠加在全局设置之上；页面内 (含 SPA 换路由) 只看叠加后的结果
+    let siteOverrides = resolveSiteOverrides(globalAutoTranslate.siteProfiles, new URL(window.location.href));
+    let currentAutoTranslate = applySiteOverrides(globalAutoTranslate, siteOverrides);
+    let currentStyles = applySiteDensity(globalStyles, siteOverrides);
+    const siteEntries = () => currentEntries.filter(e => isInSiteScenarios(e, siteOverrides));
+
+    // Matching and replacement planning run in a worker; the page thread only touches the DOM
+    const matcher = createMatchWorkerClient(siteEntries());
+    ctx.onInvalidated(() => matcher.dispose());
+    let entriesById = new Map(currentEntries.map(e => [e.id, e]));
+    // Dictionary lookups of this page by action + entry text, settled whether found or not; the results live in the match worker
+    const richLookups = new Map<string, Promise<void>>();
+
+    const density = createDensityController(() => currentStyles, (id) => currentExposure[id] || 0);
+    // Every DOM split, so the page can be restored and replacements re-rendered in place
+    const journal = createReplacementJournal();
+    // Blocks already planned, so words that newly qualify can be added without translating again
+    const plannedBlocks = new Map<HTMLElement, { sourceSentences: string[], transSentences: string[], mode: 'translate' | 'gloss' }>();
+    // Words that qualified while the page showed its original text; added on the next show
+    const pendingAdditions = new Set<string>();
 
     /**
-     * Strict Sentence-Scoped Replacement (UPDATED for Aggressive Mode)
-     * Now async to support API calls for aggressive matching.
+     * Re-resolves the site profiles (after a settings change or an SPA route change).
+     * Words that moved in or out of the site's scenarios are added or withdrawn, a
+     * changed density override is handled like a style change.
      */
-    const applySentenceScopedReplacements = async (
-        block: HTMLElement, 
-        sourceSentences: string[], 
-        transSentences: string[]
-    ) => {
-        // 1. Map Text Nodes
-        const textNodes: Text[] = [];
-        const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
-        let node;
-        while(node = walker.nextNode()) {
-            if (node.parentElement?.closest('.context-lingo-wrapper')) continue;
-            textNodes.push(node as Text);
+    const refreshSiteOverrides = () => {
+        const previous = siteOverrides;
+        siteOverrides = resolveSiteOverrides(globalAutoTranslate.siteProfiles, new URL(window.location.href));
+        currentAutoTranslate = applySiteOverrides(globalAutoTranslate, siteOverrides);
+        // Picks up a new prefetch margin for blocks still waiting
+        if (viewportObserver) getViewportObserver();
+        if (JSON.stringify(previous.scenarioIds || []) !== JSON.stringify(siteOverrides.scenarioIds || [])) {
+            matcher.updateEntries(siteEntries());
+            syncReplacements(currentEntries.map(e => e.id), true);
         }
+        if (previous.densityPercent !== siteOverrides.densityPercent) applyStyles(globalStyles);
+    };
 
-        let fullText = "";
-        const nodeMap: { node: Text, start: number, end: number }[] = [];
-        textNodes.forEach(n => {
-            const val = n.nodeValue || "";
-            nodeMap.push({ node: n, start: fullText.length, end: fullText.length + val.length });
-            fullText += val;
-        });
+    autoTranslateConfigStorage.watch((newVal) => {
+        if (!newVal) return;
+        if (newVal.aggressiveMode && !globalAutoTranslate.aggressiveMode) {
+            // Lookups start going online, also for words the cache / offline pack didn't know
+            matcher.forgetRichDataMisses();
+        }
+        globalAutoTranslate = newVal;
+        refreshSiteOverrides();
+    });
 
-        // 2. Identify Replacements per Sentence (Primary Pass)
-        const replacements: { start: number, end: number, entry: WordEntry }[] = [];
-        let searchCursor = 0;
+    const lookupRichData = async (action: 'LOOKUP_WORD_RICH' | 'LOOKUP_WORD_LOCAL', text: string) => {
+        try {
+            const response = await browser.runtime.sendMessage({ action, text }) as MessageResponse<RichDictionaryResult>;
+            // Recorded even when nothing was found, so the planner stops asking for it
+            matcher.addRichData({ [text]: (response?.success && response.data) || null });
+        } catch (e) {
+            console.warn("Dictionary lookup failed for", text, e);
+            matcher.addRichData({ [text]: null });
+        }
+    };
 
-        // Keep track of which entries are successfully matched in each sentence
-        // to identify "missed" candidates for Aggressive Mode
-        
-        for (let idx = 0; idx < sourceSentences.length; idx++) {
-            const sent = sourceSentences[idx];
-            const trans = transSentences[idx] || "";
-            
-            const sentStart = fullText.indexOf(sent, searchCursor);
-            if (sentStart === -1) {
-                continue; 
-            }
-            const sentEnd = sentStart + sent.length;
-            searchCursor = sentEnd; // Advance cursor
-
-            // --- Phase 1: Standard Fuzzy Match ---
-            const primaryMatches = findFuzzyMatches(sent, currentEntries, trans);
-            // Track matched TEXTS to avoid triggering aggressive mode for the same word (even if ID differs)
-            // const matchedTexts = new Set(primaryMatches.map(m => m.entry.text.toLowerCase()));
-
-            primaryMatches.forEach(m => {
-                let localPos = sent.indexOf(m.text);
-                while (localPos !== -1) {
-                    replacements.push({
-                        start: sentStart + localPos,
-                        end: sentStart + localPos + m.text.length,
-                        entry: m.entry
-                    });
-                    localPos = sent.indexOf(m.text, localPos + 1);
+    // Other blocks may already be waiting for the same word: share their lookup.
+    // Only aggressive mode goes online; otherwise sense scoring uses the dictionary cache and offline pack.
+    const fetchRichData = async (texts: string[]) => {
+        const action = currentAutoTranslate.aggressiveMode ? 'LOOKUP_WORD_RICH' : 'LOOKUP_WORD_LOCAL';
+        await Promise.all(texts.map(text => {
+            const key = `${action}:${text}`;
+            if (!richLookups.has(key)) richLookups.set(key, lookupRichData(action, text));
+            return richLookups.get(key);
+        }));
+    };
+
+    /**
+     * Runs DOM work in small slices while the page is idle so long articles don't jank.
+     */
+    const runInIdleChunks = (tasks: (() => void)[]): Promise<void> => {
+        return new Promise(resolve => {
+            let cursor = 0;
+            const step = (deadline?: IdleDeadline) => {
+                const sliceEnd = performance.now() + 8;
+                while (cursor < tasks.length) {
+                    tasks[cursor++]();
+                    const remaining = deadline ? deadline.timeRemaining() : sliceEnd - performance.now();
+                    if (remaining <= 1) break;
                 }
-            });
+                if (cursor < tasks.length) schedule();
+                else resolve();
+            };
+            const schedule = () => {
+                if ('requestIdleCallback' in window) window.requestIdleCallback(step, { timeout: 500 });
+                else setTimeout(() => step(), 16);
+            };
+            schedule();
+        });
+    };
 
-            // --- Phase 2: Aggressive Match (Experimental) ---
-            if (currentAutoTranslate.aggressiveMode) {
-                // Identify candidates that exist in translation
-                // Note: removed `matchedTexts` check to allow matching multiple occurrences of the same word (e.g. China twice in different contexts)
-                const normTrans = normalizeEnglishText(trans);
-                const candidatesInTrans = currentEntries.filter(e => {
-                    const inTrans = normTrans.includes(e.text.toLowerCase()) || 
-                                    (e.inflections && e.inflections.some(inf => normTrans.includes(inf.toLowerCase())));
-                    return inTrans;
-                });
+    const renderReplacement = (original: string, entry: WordEntry, mode: 'translate' | 'gloss', sense?: ChosenSense) => {
+        return mode === 'gloss'
+            // English page: keep the page's word, Chinese meaning as ruby
+            ? buildReplacementHtml(
+                sense?.meaning || entry.translation || '',
+                original,
+                entry.category,
+                currentStyles,
+                toGlossLayout(currentOriginalTextConfig),
+                entry.id,
+                sense
+            )
+            : buildReplacementHtml(
+                original, // Original text found
+                entry.text,
+                entry.category,
+                currentStyles,
+                currentOriginalTextConfig,
+                entry.id,
+                sense
+            );
+    };
 
-                if (candidatesInTrans.length > 0) {
-                    // Deduplicate missed candidates by text to reduce API calls
-                    const uniqueMap = new Map<string, WordEntry>();
-                    candidatesInTrans.forEach(c => uniqueMap.set(c.text, c));
-                    const uniqueCandidates = Array.from(uniqueMap.values());
-                    
-                    for (const candidate of uniqueCandidates) {
-                        try {
-                            // Call API to get rich definitions (real-time lookup)
-                            const response = await browser.runtime.sendMessage({
-                                action: 'LOOKUP_WORD_RICH',
-                                text: candidate.text
-                            }) as any;
-
-                            if (response && response.success && response.data) {
-                                // Perform Aggressive Matching with new definitions on the sentence
-                                const aggMatches = findAggressiveMatches(sent, candidate, response.data);
-                                
-                                aggMatches.forEach(m => {
-                                    let localPos = sent.indexOf(m.text);
-                                    while (localPos !== -1) {
-                                        replacements.push({
-                                            start: sentStart + localPos,
-                                            end: sentStart + localPos + m.text.length,
-                                            entry: m.entry
-                                        });
-                                        localPos = sent.indexOf(m.text, localPos + 1);
-                                    }
-                                });
-                            }
-                        } catch (e) {
-                            console.warn("Aggressive lookup failed for", candidate.text, e);
-                        }
-                    }
-                }
+    /**
+     * A block's text as the page wrote it: existing replacements count as their
+     * original text so sentences still line up, but are never split again.
+     */
+    const mapBlockText = (block: HTMLElement) => {
+        let fullText = "";
+        const nodeMap: { node: Text, start: number, end: number }[] = [];
+        const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+        let lastSpan: Element | null = null;
+        let node;
+        while(node = walker.nextNode()) {
+            const span = node.parentElement?.closest('.context-lingo-word');
+            if (span) {
+                if (span === lastSpan) continue;
+                lastSpan = span;
+                fullText += journal.recordForSpan(span as HTMLElement)?.original || '';
+                continue;
             }
+            const val = node.nodeValue || "";
+            nodeMap.push({ node: node as Text, start: fullText.length, end: fullText.length + val.length });
+            fullText += val;
         }
+        return { fullText, nodeMap };
+    };
 
-        // 3. Apply Replacements (Reverse Order & Overlap Check)
-        replacements.sort((a, b) => b.start - a.start);
+    // Content fingerprint taken when a block is scanned; a different one later means the page rewrote it
+    const blockHashes = new WeakMap<HTMLElement, string>();
+    const hashBlock = (block: HTMLElement) => hashText(mapBlockText(block).fullText);
+    const rememberBlock = (block: HTMLElement) => blockHashes.set(block, hashBlock(block));
+
+    const isBlockStale = (block: HTMLElement) => blockHashes.get(block) !== hashBlock(block) || journal.hasStaleWithin(block);
+
+    // Back to the page's own DOM, ready to be picked up by the next scan
+    const invalidateBlock = (block: HTMLElement) => {
+        journal.revertWithin(block);
+        plannedBlocks.delete(block);
+        blockHashes.delete(block);
+        block.removeAttribute('data-context-lingo-scanned');
+        block.removeAttribute('data-lingo-source');
+        block.removeAttribute('data-lingo-translation');
+        const next = block.nextElementSibling;
+        if (next?.classList.contains('context-lingo-bilingual-block')) next.remove();
+    };
 
-        const safeReplacements: typeof replacements = [];
-        let lastStart = Number.MAX_VALUE;
-        for (const r of replacements) {
-            // Overlap check: ensure current end is not greater than previous start (since we iterate reverse)
-            if (r.end <= lastStart) {
-                safeReplacements.push(r);
-                lastStart = r.start;
-            }
+    /**
+     * Strict Sentence-Scoped Replacement
+     * The worker plans offsets from plain text (a second round only if aggressive
+     * mode needs dictionary data); the DOM is then patched in idle-time chunks.
+     */
+    const applySentenceScopedReplacements = async (
+        block: HTMLElement, 
+        sourceSentences: string[], 
+        transSentences: string[],
+        mode: 'translate' | 'gloss' = 'translate',
+        onlyEntryIds?: Set<string> // Adding words to an already replaced block
+    ) => {
+        if (!onlyEntryIds) plannedBlocks.set(block, { sourceSentences, transSentences, mode });
+
+        // 1. Map Text Nodes
+        const { fullText, nodeMap } = mapBlockText(block);
+
+        // 2. Plan Replacements off the main thread
+        const request = {
+            mode,
+            fullText,
+            sourceSentences,
+            transSentences,
+            matchInflections: currentAutoTranslate.matchInflections,
+            aggressiveMode: currentAutoTranslate.aggressiveMode
+        };
+        let plan = await matcher.plan(request);
+        if (plan.missingRichData.length > 0) {
+            await fetchRichData(plan.missingRichData);
+            plan = await matcher.plan(request);
         }
 
+        const planned = plan.replacements
+            .map(r => ({ ...r, entry: entriesById.get(r.entryId) }))
+            .filter((r): r is typeof r & { entry: WordEntry } => !!r.entry)
+            .filter(r => !onlyEntryIds || onlyEntryIds.has(r.entryId));
+        if (planned.length === 0) return;
+
+        // 3. Page-level density budget per category
+        const blockTop = block.getBoundingClientRect().top + window.scrollY;
+        const pageHeight = Math.max(document.documentElement.scrollHeight, 1);
+        // Reverse order so earlier offsets stay valid while splitting text nodes
+        const allowedReplacements = density.select(planned, blockTop / pageHeight).reverse();
+        const rendered: typeof allowedReplacements = [];
+
         // 4. Execute DOM Manipulation
-        safeReplacements.forEach(r => {
+        await runInIdleChunks(allowedReplacements.map(r => () => {
             const target = nodeMap.find(n => r.start >= n.start && r.end <= n.end);
             
             if (target) {
@@ -555,58 +753,130 @@ export default defineContentScript({
                 const mid = val.substring(localStart, localEnd);
                 const after = val.substring(localEnd);
 
-                // Sanity check
-                if (mid !== r.entry.text && mid !== r.entry.translation && mid !== mid) return;
+                // The page may have changed the text since it was planned
+                if (mid !== r.text) return;
 
                 const span = document.createElement('span');
                 span.className = 'context-lingo-word';
-                span.innerHTML = buildReplacementHtml(
-                    mid, // Original text found
-                    r.entry.text,
-                    r.entry.category,
-                    currentStyles,
-                    currentOriginalTextConfig,
-                    r.entry.id
-                );
+                span.innerHTML = renderReplacement(mid, r.entry, mode, r.sense);
 
                 const parent = node.parentNode;
                 if (parent) {
-                    if (after) parent.insertBefore(document.createTextNode(after), node.nextSibling);
-                    parent.insertBefore(span, node.nextSibling);
-                    if (before) parent.insertBefore(document.createTextNode(before), node.nextSibling);
-                    parent.removeChild(node);
+                    const inserted: Node[] = [span];
+                    const beforeNode = before ? document.createTextNode(before) : null;
+                    if (beforeNode) inserted.unshift(beforeNode);
+                    if (after) inserted.push(document.createTextNode(after));
+                    if (!journal.commit({ parent, removed: node, inserted, span, entryId: r.entry.id, original: mid, mode, sense: r.sense })) return;
+                    if (beforeNode) {
+                        // Earlier matches in the same node now live in the leading remainder
+                        target.node = beforeNode;
+                        target.end = target.start + before.length;
+                    }
+                    rendered.push(r);
                 }
             }
-        });
+        }));
+
+        // Skipped replacements don't use up the page budget
+        density.settle(allowedReplacements, rendered);
+        const renderedIds = rendered.map(r => r.entry.id);
+        renderedIds.forEach(id => { currentExposure[id] = (currentExposure[id] || 0) + 1; });
+        recordWordExposure(renderedIds);
+    };
+
+    /**
+     * Brings the spans of the given entries in line with current entries and styles:
+     * restyle in place, withdraw words that were deleted or left the site's scenarios,
+     * and (with `addMissing`) plan already translated blocks again for words that now
+     * qualify but have nothing on the page yet.
+     */
+    const syncReplacements = async (entryIds: Iterable<string>, addMissing: boolean) => {
+        const tasks: (() => void)[] = [];
+        const additions = new Set<string>();
+        for (const id of entryIds) {
+            const entry = entriesById.get(id);
+            const shown = !!entry && isInSiteScenarios(entry, siteOverrides);
+            const records = journal.recordsFor(id);
+            if (records.length === 0) {
+                if (shown && addMissing) additions.add(id);
+                continue;
+            }
+            records.forEach(r => tasks.push(() => {
+                if (!shown) return journal.withdraw(r);
+                r.span.innerHTML = renderReplacement(r.original, entry!, r.mode, r.sense);
+                journal.reinstate(r);
+            }));
+        }
+        await runInIdleChunks(tasks);
+
+        if (additions.size === 0) return;
+        if (!journal.isApplied()) {
+            additions.forEach(id => pendingAdditions.add(id));
+            return;
+        }
+        for (const [block, planned] of Array.from(plannedBlocks)) {
+            if (!block.isConnected) {
+                plannedBlocks.delete(block);
+                continue;
+            }
+            await applySentenceScopedReplacements(block, planned.sourceSentences, planned.transSentences, planned.mode, additions);
+        }
+    };
+
+    // New global styles, seen through the site's density override
+    const applyStyles = (styles: Record<WordCategory, StyleConfig>) => {
+        globalStyles = styles;
+        const previous = currentStyles;
+        currentStyles = applySiteDensity(styles, siteOverrides);
+        const changed = (Object.keys(currentStyles) as WordCategory[]).filter(c => JSON.stringify(previous[c]) !== JSON.stringify(currentStyles[c]));
+        if (changed.length === 0) return;
+        // A new density (0 included) re-plans the category under a fresh budget; the rest is restyling
+        const rebudgeted = changed.filter(c => previous[c]?.densityMode !== currentStyles[c].densityMode || previous[c]?.densityValue !== currentStyles[c].densityValue);
+        const idsIn = (categories: WordCategory[]) => currentEntries.filter(e => categories.includes(e.category)).map(e => e.id);
+        syncReplacements(idsIn(changed.filter(c => !rebudgeted.includes(c))), false);
+        if (rebudgeted.length > 0) replanCategories(rebudgeted, idsIn(rebudgeted));
+    };
+
+    const replanCategories = async (categories: WordCategory[], entryIds: string[]) => {
+        categories.forEach(c => density.resetCategory(c));
+        await runInIdleChunks(entryIds.flatMap(id => journal.recordsFor(id).map(r => () => journal.retire(r))));
+        await syncReplacements(entryIds, true);
     };
 
     class TranslationScheduler {
-        private buffer: { block: HTMLElement, sourceText: string }[] = [];
+        private buffer: { block: HTMLElement, sourceText: string, urgent: boolean }[] = [];
         private requestQueue: { 
-            combinedText: string, 
+            sentences: string[],
             mappings: { block: HTMLElement, originalSentence: string, index: number }[] 
         }[] = [];
         
         private isProcessingQueue = false;
+        private isBudgetPaused = false; // Set once an engine's monthly budget pauses auto-translation
         private timer: ReturnType<typeof setTimeout> | null = null;
-        private delimiter = " ||| "; 
         
         private maxBatchSize = 10; 
         private maxCharCount = 2000; 
         private rateLimitDelay = 350;
 
-        add(block: HTMLElement) {
+        // `urgent`: the block is on screen right now, so its batch jumps ahead of prefetched ones
+        add(block: HTMLElement, urgent = false) {
+            if (this.isBudgetPaused) return;
             if (block.hasAttribute('data-context-lingo-scanned')) return;
             const sourceText = block.innerText?.trim();
             if (!sourceText || sourceText.length < 2 || !/[\u4e00-\u9fa5]/.test(sourceText)) return;
             block.setAttribute('data-context-lingo-scanned', 'pending');
-            this.buffer.push({ block, sourceText });
-            this.scheduleFlush();
+            rememberBlock(block);
+            this.buffer.push({ block, sourceText, urgent });
+            this.scheduleFlush(urgent);
         }
 
-        private scheduleFlush() {
+        private scheduleFlush(urgent = false) {
             const currentChars = this.buffer.reduce((acc, item) => acc + item.sourceText.length, 0);
-            if (this.buffer.length >= this.maxBatchSize || currentChars >= this.maxCharCount) {
+            if (urgent && !this.isProcessingQueue) {
+                // Nothing in flight: visible text goes out right away (same tick keeps one observer callback together)
+                if (this.timer) clearTimeout(this.timer);
+                this.timer = setTimeout(() => this.flushBufferToQueue(), 0);
+            } else if (this.buffer.length >= this.maxBatchSize || currentChars >= this.maxCharCount) {
                 if (this.timer) clearTimeout(this.timer);
                 this.flushBufferToQueue();
             } else {
@@ -620,7 +890,8 @@ export default defineContentScript({
             if (this.buffer.length === 0) return;
             if (this.timer) { clearTimeout(this.timer); this.timer = null; }
 
-            const batchItems = this.buffer.splice(0, this.buffer.length);
+            // On-screen blocks first, both within the batch and in the request queue
+            const batchItems = this.buffer.splice(0, this.buffer.length).sort((a, b) => Number(b.urgent) - Number(a.urgent));
             const allSentences: string[] = [];
             const mappings: { block: HTMLElement, originalSentence: string, index: number }[] = [];
             
@@ -636,11 +907,26 @@ export default defineContentScript({
                 });
             });
 
-            const combinedText = allSentences.join(this.delimiter);
-            this.requestQueue.push({ combinedText, mappings });
+            if (batchItems[0].urgent) this.requestQueue.unshift({ sentences: allSentences, mappings });
+            else this.requestQueue.push({ sentences: allSentences, mappings });
             this.processQueue();
         }
 
+        private pause(pending: { mappings: { block: HTMLElement }[] }[]) {
+            this.isBudgetPaused = true;
+            if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+            // Un-mark everything still waiting so it can be picked up once the budget allows it again
+            const blocks = [...this.buffer.splice(0).map(item => item.block), ...pending.flatMap(req => req.mappings.map(m => m.block))];
+            blocks.forEach(b => b.removeAttribute('data-context-lingo-scanned'));
+        }
+
+        resume() {
+            if (!this.isBudgetPaused) return;
+            this.isBudgetPaused = false;
+            // Blocks un-marked or dropped by pause() (and no longer observed in lazy mode) are found by a fresh scan
+            scanAndTranslatePage();
+        }
+
         private async processQueue() {
             if (this.isProcessingQueue) return;
             this.isProcessingQueue = true;
@@ -649,25 +935,23 @@ export default defineContentScript({
                 const batchRequest = this.requestQueue.shift();
                 if (!batchRequest) break;
 
-                const engine = currentEngines.find(e => e.isEnabled);
-                if (!engine) {
+                if (!currentEngines.some(e => e.isEnabled)) {
                     console.warn("ContextLingo: No active engine found.");
                     this.isProcessingQueue = false;
                     return;
                 }
 
                 try {
+                    // No engine given: the background walks the enabled engines in order with failover
                     const response = await browser.runtime.sendMessage({
                         action: 'TRANSLATE_TEXT',
-                        engine: engine,
-                        text: batchRequest.combinedText,
+                        sentences: batchRequest.sentences,
                         target: 'en'
-                    });
+                    }) as any;
 
-                    if (response.success && response.data.Response?.TargetText) {
-                         const fullTranslatedText = response.data.Response.TargetText;
-                         const splitPattern = /\s*\|\|\|\s*/; 
-                         const translatedSentences = fullTranslatedText.split(splitPattern);
+                    if (response.success && Array.isArray(response.data?.sentences)) {
+                         // The background returns one aligned translation per sentence (cache + engine output merged)
+                         const translatedSentences: string[] = response.data.sentences;
     
                          const blockUpdates = new Map<HTMLElement, { sourceSentences: string[], transSentences: string[] }>();
                          
@@ -689,6 +973,10 @@ export default defineContentScript({
                          });
                          await Promise.all(updatePromises);
 
+                    } else if (response?.budgetPaused) {
+                        console.warn(`ContextLingo: ${response.error}`);
+                        this.pause([batchRequest, ...this.requestQueue.splice(0)]);
+                        break;
                     } else {
                         const affectedBlocks = new Set(batchRequest.mappings.map(m => m.block));
                         affectedBlocks.forEach(b => b.setAttribute('data-context-lingo-scanned', 'error'));
@@ -703,6 +991,8 @@ export default defineContentScript({
         }
 
         private async applyTranslationWithSentences(block: HTMLElement, sourceSentences: string[], transSentences: string[]) {
+            // Rewritten by the page while the request was in flight (recycled list row, route change)
+            if (!block.isConnected || blockHashes.get(block) !== hashBlock(block)) return;
             const fullSource = sourceSentences.join('');
             const fullTrans = transSentences.join(' '); 
 
@@ -714,6 +1004,7 @@ export default defineContentScript({
                     const transBlock = document.createElement('div');
                     transBlock.className = 'context-lingo-bilingual-block';
                     transBlock.innerText = fullTrans;
+                    transBlock.hidden = !journal.isApplied();
                     block.after(transBlock);
                 }
             }
@@ -726,20 +1017,99 @@ export default defineContentScript({
 
     const scheduler = new TranslationScheduler();
 
+    /**
+     * English pages need no translation call: glossing runs straight off the
+     * page text, block by block.
+     */
+    const annotateEnglishBlock = async (block: HTMLElement) => {
+        if (block.hasAttribute('data-context-lingo-scanned')) return;
+        block.setAttribute('data-context-lingo-scanned', 'true');
+        rememberBlock(block);
+        await applySentenceScopedReplacements(block, [], [], 'gloss');
+    };
+
+    /**
+     * Lazy mode: blocks wait in an IntersectionObserver and are only queued once they
+     * come within `lazyPrefetchMargin` px of the viewport. Blocks already on screen
+     * are marked urgent so they are translated before the prefetched ones.
+     */
+    const waitingBlocks = new Map<HTMLElement, boolean>(); // block -> gloss mode
+    let viewportObserver: IntersectionObserver | null = null;
+    let observerMargin = -1;
+
+    const startBlock = (block: HTMLElement, glossMode: boolean, urgent: boolean) => {
+        if (glossMode) annotateEnglishBlock(block);
+        else scheduler.add(block, urgent);
+    };
+
+    const getViewportObserver = () => {
+        const margin = Math.max(0, currentAutoTranslate.lazyPrefetchMargin ?? DEFAULT_AUTO_TRANSLATE.lazyPrefetchMargin);
+        if (viewportObserver && observerMargin === margin) return viewportObserver;
+
+        viewportObserver?.disconnect();
+        observerMargin = margin;
+        viewportObserver = new IntersectionObserver((records) => {
+            records.forEach(record => {
+                if (!record.isIntersecting) return;
+                const block = record.target as HTMLElement;
+                viewportObserver?.unobserve(block);
+                const glossMode = waitingBlocks.get(block);
+                waitingBlocks.delete(block);
+                if (glossMode === undefined) return;
+                const rect = record.boundingClientRect;
+                startBlock(block, glossMode, rect.bottom > 0 && rect.top < window.innerHeight);
+            });
+        }, { rootMargin: `${margin}px 0px ${margin}px 0px` });
+        // Margin changed: carry over everything still waiting
+        waitingBlocks.forEach((_, block) => viewportObserver!.observe(block));
+        return viewportObserver;
+    };
+
+    const observeBlock = (block: HTMLElement, glossMode: boolean) => {
+        if (waitingBlocks.has(block)) return;
+        waitingBlocks.set(block, glossMode);
+        getViewportObserver().observe(block);
+    };
+
+    ctx.onInvalidated(() => viewportObserver?.disconnect());
+
+    // Sampled once per scan; a page with barely any Chinese counts as English
+    const isEnglishPage = () => {
+        const sample = (document.body.innerText || '').slice(0, 5000);
+        const cjk = (sample.match(/[\u4e00-\u9fa5]/g) || []).length;
+        const latin = (sample.match(/[a-zA-Z]/g) || []).length;
+        return latin > 200 && cjk < latin * 0.05;
+    };
+
+    // Set up once auto-translation is on; shadow roots found by a scan are observed with it
+    let domObserver: MutationObserver | null = null;
+    const observedShadowRoots = new WeakSet<ShadowRoot>();
+    const DOM_OBSERVER_OPTIONS: MutationObserverInit = { childList: true, subtree: true, characterData: true };
+    const isOwnUiHost = (host: Element) => host.tagName === 'CONTEXT-LINGO-UI';
+
     const scanAndTranslatePage = () => {
         const blockTags = ['P', 'DIV', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'ADDRESS', 'ARTICLE', 'ASIDE', 'FIGCAPTION', 'TD', 'TH', 'DD', 'DT'];
 
-        let rootElement = document.body;
-        let isMainContentSearch = !currentAutoTranslate.translateWholePage;
+        let rootElements: HTMLElement[] = [document.body];
+        const includeSelector = toValidSelector(siteOverrides.includeSelectors);
+        const excludeSelector = toValidSelector(siteOverrides.excludeSelectors);
+        // Site include selectors say exactly where the content is; no need to guess
+        let isMainContentSearch = !currentAutoTranslate.translateWholePage && !includeSelector;
+        const glossMode = currentAutoTranslate.englishPageMode && isEnglishPage();
+        const contentPattern = glossMode ? /[a-zA-Z]{2,}/ : /[\u4e00-\u9fa5]/;
         
-        if (isMainContentSearch) {
+        if (includeSelector) {
+             rootElements = deepQuerySelectorAll<HTMLElement>(includeSelector);
+             // Nested matches would be walked twice
+             rootElements = rootElements.filter(el => !rootElements.some(other => other !== el && other.contains(el)));
+        } else if (isMainContentSearch) {
              const mainCandidate = document.querySelector('article') || document.querySelector('main') || document.querySelector('[role="main"]');
              if (mainCandidate) {
-                 rootElement = mainCandidate as HTMLElement;
+                 rootElements = [mainCandidate as HTMLElement];
              }
         }
 
-        const walker = document.createTreeWalker(rootElement, NodeFilter.SHOW_ELEMENT, {
+        const filter: NodeFilter = {
              acceptNode: (node) => {
                  const el = node as HTMLElement;
                  const technicalTags = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'IFRAME', 'SVG', 'IMG', 'INPUT', 'TEXTAREA', 'CODE', 'HEAD', 'META', 'BUTTON', 'LINK', 'MAP', 'OBJECT', 'VIDEO', 'AUDIO'];
@@ -749,6 +1119,7 @@ export default defineContentScript({
                  if (el.closest('[data-context-lingo-container]')) return NodeFilter.FILTER_REJECT;
                  if (el.hasAttribute('data-context-lingo-scanned')) return NodeFilter.FILTER_REJECT;
                  if (el.offsetParent === null) return NodeFilter.FILTER_REJECT;
+                 if (excludeSelector && el.closest(excludeSelector)) return NodeFilter.FILTER_REJECT;
 
                  if (isMainContentSearch) {
                      const structuralTags = ['HEADER', 'FOOTER', 'NAV', 'ASIDE', 'MENU', 'DIALOG'];
@@ -760,7 +1131,7 @@ export default defineContentScript({
                  }
 
                  const text = el.innerText;
-                 if (!text || !/[\u4e00-\u9fa5]/.test(text)) {
+                 if (!text || !contentPattern.test(text)) {
                      return NodeFilter.FILTER_SKIP;
                  }
 
@@ -770,42 +1141,117 @@ export default defineContentScript({
 
                  return NodeFilter.FILTER_ACCEPT;
              }
+        };
+
+        const lazy = currentAutoTranslate.lazyTranslate && 'IntersectionObserver' in window;
+        // Drop waiting blocks the page has since removed
+        waitingBlocks.forEach((_, block) => {
+            if (!block.isConnected) {
+                viewportObserver?.unobserve(block);
+                waitingBlocks.delete(block);
+            }
         });
 
-        while(walker.nextNode()) {
-            const block = walker.currentNode as HTMLElement;
-            scheduler.add(block);
-        }
+        // Web components: a TreeWalker stops at shadow hosts, so each open shadow root is walked on its own
+        const shadowRoots = rootElements.flatMap(root => collectOpenShadowRoots(root, isOwnUiHost));
+        [...rootElements, ...shadowRoots].forEach(root => {
+            const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, filter);
+            while(walker.nextNode()) {
+                const block = walker.currentNode as HTMLElement;
+                if (lazy) observeBlock(block, glossMode);
+                else startBlock(block, glossMode, false);
+            }
+        });
+
+        shadowRoots.forEach(root => {
+            if (!domObserver || observedShadowRoots.has(root)) return;
+            observedShadowRoots.add(root);
+            domObserver.observe(root, DOM_OBSERVER_OPTIONS);
+        });
     };
 
-    const hostname = window.location.hostname;
-    const isBlacklisted = currentAutoTranslate.blacklist.some(d => hostname.match(new RegExp(d)));
-    const isWhitelisted = currentAutoTranslate.whitelist.some(d => hostname.match(new RegExp(d)));
-    
-    if (isBlacklisted && !isWhitelisted) {
-        console.log('ContextLingo: Site blacklisted, skipping.');
+    if (siteOverrides.enabled === false) {
+        console.log('ContextLingo: Switched off for this site by a site profile, skipping.');
         return;
     }
 
-    browser.runtime.onMessage.addListener((message) => {
+    // Translations shown next to blocks go away together with the replacements
+    journal.subscribe(applied => {
+        deepQuerySelectorAll('.context-lingo-bilingual-block').forEach(el => { el.hidden = !applied; });
+        // The floating ball lives in the top frame; frames follow its state
+        if (isTopFrame) browser.runtime.sendMessage({ action: 'SET_REPLACEMENTS_SHOWN', applied }).catch(() => {});
+        if (applied && pendingAdditions.size > 0) {
+            const ids = Array.from(pendingAdditions);
+            pendingAdditions.clear();
+            syncReplacements(ids, true);
+        }
+    });
+
+    browser.runtime.onMessage.addListener((raw: unknown) => {
+       const message = raw as ContentMessage;
        if (message.action === 'TRIGGER_TRANSLATION') {
            scanAndTranslatePage();
        }
+       if (message.action === 'TOGGLE_REPLACEMENTS') {
+           journal.toggle();
+       }
+       if (message.action === 'SET_REPLACEMENTS_SHOWN') {
+           if (message.applied) journal.show();
+           else journal.hide();
+       }
     });
 
-    if (isWhitelisted || currentAutoTranslate.enabled) {
+    /**
+     * Scanned blocks whose text no longer matches what was translated (SPA views
+     * reusing nodes, virtual lists recycling rows) are reverted and scanned again;
+     * replacement records for parts of the page that are gone are dropped.
+     */
+    const revalidateBlocks = (blocks: Iterable<HTMLElement>) => {
+        for (const block of blocks) {
+            if (block.isConnected && block.hasAttribute('data-context-lingo-scanned') && isBlockStale(block)) invalidateBlock(block);
+        }
+        journal.prune();
+    };
+
+    if (currentAutoTranslate.enabled) {
         setTimeout(scanAndTranslatePage, 1000); 
         let debounceTimer: ReturnType<typeof setTimeout>;
-        const observer = new MutationObserver((mutations) => {
-            if (mutations.some(m => m.addedNodes.length > 0)) {
-                clearTimeout(debounceTimer);
-                debounceTimer = setTimeout(scanAndTranslatePage, 2000);
-            }
+        const dirtyBlocks = new Set<HTMLElement>();
+        const scheduleRescan = (delay: number) => {
+            clearTimeout(debounceTimer);
+            debounceTimer = setTimeout(() => {
+                const blocks = Array.from(dirtyBlocks);
+                dirtyBlocks.clear();
+                revalidateBlocks(blocks);
+                scanAndTranslatePage();
+            }, delay);
+        };
+
+        domObserver = new MutationObserver((mutations) => {
+            let changed = false;
+            mutations.forEach(m => {
+                const target = m.target.nodeType === Node.ELEMENT_NODE ? m.target as Element : m.target.parentElement;
+                const block = target?.closest('[data-context-lingo-scanned]') as HTMLElement | null;
+                if (block) dirtyBlocks.add(block);
+                if (block || m.addedNodes.length > 0) changed = true;
+            });
+            if (changed) scheduleRescan(2000);
+        });
+        // characterData: frameworks update text nodes in place when they recycle elements
+        domObserver.observe(document.body, DOM_OBSERVER_OPTIONS);
+        ctx.onInvalidated(() => domObserver?.disconnect());
+
+        // history.pushState / replaceState navigation: the DOM may be reused, so check every scanned block
+        ctx.addEventListener(window, 'wxt:locationchange', () => {
+            // Path-based site profiles may apply differently on the new route
+            refreshSiteOverrides();
+            density.reset();
+            deepQuerySelectorAll('[data-context-lingo-scanned]').forEach(b => dirtyBlocks.add(b));
+            scheduleRescan(1000);
         });
-        observer.observe(document.body, { childList: true, subtree: true });
     }
 
-    await createShadowRootUi(ctx, {
+    if (isTopFrame) await createShadowRootUi(ctx, {
       name: 'context-lingo-ui',
       position: 'inline',
       onMount: (container) => {
@@ -822,6 +1268,7 @@ export default defineContentScript({
                     initialEntries={currentEntries}
                     initialInteractionConfig={currentInteractionConfig}
                     initialAutoTranslateConfig={currentAutoTranslate}
+                    journal={journal}
                 />
             </React.StrictMode>
         );
@@ -830,10 +1277,36 @@ export default defineContentScript({
       onRemove: (root) => root?.unmount(),
     }).then(ui => ui.mount());
 
-    stylesStorage.watch((newVal) => { if(newVal) currentStyles = newVal; });
-    originalTextConfigStorage.watch((newVal) => { if(newVal) currentOriginalTextConfig = newVal; });
-    entriesStorage.watch((newVal) => { if(newVal) currentEntries = newVal; });
-    enginesStorage.watch((newVal) => { if(newVal) currentEngines = newVal; });
+    stylesStorage.watch((newVal) => {
+        if (newVal) applyStyles(newVal);
+    });
+    wordExposureStorage.watch((newVal) => { if(newVal) currentExposure = newVal; });
+    originalTextConfigStorage.watch((newVal) => {
+        if (!newVal) return;
+        currentOriginalTextConfig = newVal;
+        const rendered = new Set<string>();
+        journal.forEachRendered(r => rendered.add(r.entryId));
+        syncReplacements(rendered, false);
+    });
+    entriesStorage.watch((newVal) => {
+        if (!newVal) return;
+        const previous = entriesById;
+        currentEntries = newVal;
+        entriesById = new Map(newVal.map(e => [e.id, e]));
+        matcher.updateEntries(siteEntries());
+        // Added, deleted, recategorized or redefined words; everything else keeps its spans untouched
+        const changed = new Set(newVal.filter(e => {
+            const old = previous.get(e.id);
+            return !old || old.category !== e.category || old.translation !== e.translation || old.text !== e.text;
+        }).map(e => e.id));
+        previous.forEach((_, id) => { if (!entriesById.has(id)) changed.add(id); });
+        if (changed.size > 0) syncReplacements(changed, true);
+    });
+    enginesStorage.watch((newVal) => {
+        if (newVal) currentEngines = newVal;
+        // A raised budget or a different engine order may lift a budget pause
+        scheduler.resume();
+    });
     interactionConfigStorage.watch((newVal) => { if(newVal) currentInteractionConfig = newVal; });
   },
 });
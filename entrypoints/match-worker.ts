@@ -0,0 +1,43 @@
+/// <reference lib="webworker" />
+import { defineUnlistedScript } from 'wxt/sandbox';
+import { WordEntry } from '../types';
+import { createDefinitionIndex } from '../utils/definition-index';
+import { planReplacements, forgetMisses, MatchWorkerRequest, MatchWorkerResponse, RichDataCache } from '../utils/replacement-planner';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+/**
+ * Dedicated worker for page matching. The content script loads this file as a
+ * blob worker and keeps it in sync with the word list; it only receives plain
+ * text and answers with replacement offsets, so tokenization and matching stay
+ * off the page's main thread.
+ */
+export default defineUnlistedScript(() => {
+    const index = createDefinitionIndex();
+    let entries: WordEntry[] = [];
+    const richData: RichDataCache = {};
+
+    const reply = (message: MatchWorkerResponse) => self.postMessage(message);
+
+    self.addEventListener('message', (event: MessageEvent<MatchWorkerRequest>) => {
+        const message = event.data;
+        if (message.type === 'entries') {
+            entries = message.entries;
+            index.update(entries);
+            return;
+        }
+        if (message.type === 'richData') {
+            Object.assign(richData, message.data);
+            return;
+        }
+        if (message.type === 'forgetMisses') {
+            forgetMisses(richData);
+            return;
+        }
+        try {
+            reply({ type: 'plan', id: message.id, plan: planReplacements(index, entries, richData, message.request) });
+        } catch (e: any) {
+            reply({ type: 'error', id: message.id, error: e?.message || String(e) });
+        }
+    });
+});
@@ -0,0 +1,100 @@
+import { WordEntry, WordCategory } from "../types";
+import { createDefinitionIndex, splitDefinitions } from "../utils/definition-index";
+
+/**
+ * 释义匹配基准：Aho–Corasick 索引 (createDefinitionIndex) 对比旧版逐条 indexOf 循环。
+ * 在大词库上比较耗时，并校验两者每句返回的命中完全一致；不一致时以非零状态退出。
+ *
+ *   npm run bench:definitions [-- <entries> <sentences>]
+ */
+
+const ENTRY_COUNT = Number(process.argv[2]) || 5000;
+const SENTENCE_COUNT = Number(process.argv[3]) || 200;
+const SENTENCE_LENGTH = 60;
+
+// Deterministic data so runs are comparable
+let seed = 42;
+const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+
+// A few hundred common characters keep the hit rate close to real text
+const CHARS = Array.from('的一是在不了有和人这中大为上个国我以要他时来用们生到作地于出就分对成会可主发年动同工也能下过子说产种面而方后多定行学法所民得经十三之进着等部度家电力里如水化高自二理起小物现实加量都两体制机当使点从业本去把性好应开它合还因由其些然前外天政四日那社义事平形相全表间样与关各重新线内数正心反你明看原又么利比或但质气第向道命此变条只没结解问意建月公无系军很情者最立代想已通并提直题党程展五果料象员革位入常文总次品式活设及管特件长求老头基资边流路级少图山统接知较将组见计别她手角期根论运农指几九区强放决西被干做必战先回则任取据处理府研质');
+
+const pick = <T>(list: T[]) => list[Math.floor(random() * list.length)];
+const makeWord = (min: number, max: number) => {
+    const length = min + Math.floor(random() * (max - min + 1));
+    return Array.from({ length }, () => pick(CHARS)).join('');
+};
+
+const makeEntries = (count: number): WordEntry[] => Array.from({ length: count }, (_, i) => ({
+    id: `bench-${i}`,
+    text: `word${i}`,
+    translation: Array.from({ length: 1 + Math.floor(random() * 4) }, () => makeWord(random() < 0.1 ? 1 : 2, 4)).join('; '),
+    category: WordCategory.LearningWord,
+    addedAt: 0,
+    scenarioId: '1',
+} as WordEntry));
+
+// Sentences built partly from real definitions so there is something to find
+const makeSentences = (entries: WordEntry[], count: number): string[] => Array.from({ length: count }, () => {
+    let sentence = '';
+    while (sentence.length < SENTENCE_LENGTH) {
+        sentence += random() < 0.3 ? pick(splitDefinitions(pick(entries).translation)) || '' : makeWord(2, 6);
+    }
+    return sentence.slice(0, SENTENCE_LENGTH);
+});
+
+type Hit = string; // "start:end:definition:entryId"
+
+// The matcher before the index: every definition of every entry, indexOf over the sentence
+const searchWithIndexOf = (sentence: string, entries: WordEntry[]): Hit[] => {
+    const hits: Hit[] = [];
+    entries.forEach(entry => {
+        const seen = new Set<string>();
+        splitDefinitions(entry.translation).forEach(def => {
+            if (seen.has(def)) return;
+            seen.add(def);
+            for (let at = sentence.indexOf(def); at !== -1; at = sentence.indexOf(def, at + 1)) {
+                hits.push(`${at}:${at + def.length}:${def}:${entry.id}`);
+            }
+        });
+    });
+    return hits.sort();
+};
+
+const time = <T>(fn: () => T): [T, number] => {
+    const start = performance.now();
+    const result = fn();
+    return [result, performance.now() - start];
+};
+
+const entries = makeEntries(ENTRY_COUNT);
+const sentences = makeSentences(entries, SENTENCE_COUNT);
+const definitionCount = entries.reduce((acc, e) => acc + splitDefinitions(e.translation).length, 0);
+
+const [expected, indexOfMs] = time(() => sentences.map(s => searchWithIndexOf(s, entries)));
+
+const index = createDefinitionIndex();
+const [, buildMs] = time(() => index.update(entries));
+const [actual, searchMs] = time(() => sentences.map(s => index.search(s)
+    .flatMap(hit => hit.entries.map(({ entry }) => `${hit.start}:${hit.end}:${hit.text}:${entry.id}`))
+    .sort()));
+
+// Incremental patch: one entry's definitions changed
+const patched = entries.map((e, i) => i === 0 ? { ...e, translation: makeWord(2, 4) } : e);
+const [, patchMs] = time(() => index.update(patched));
+
+const mismatches = sentences.filter((_, i) => expected[i].join('\n') !== actual[i].join('\n')).length;
+const hitCount = expected.reduce((acc, h) => acc + h.length, 0);
+
+console.log(`${ENTRY_COUNT} entries (${definitionCount} definitions), ${SENTENCE_COUNT} sentences of ${SENTENCE_LENGTH} chars, ${hitCount} hits`);
+console.log(`indexOf loop:      ${indexOfMs.toFixed(1)} ms`);
+console.log(`definition index:  ${searchMs.toFixed(1)} ms (+ ${buildMs.toFixed(1)} ms build, ${patchMs.toFixed(1)} ms to patch one entry)`);
+
+if (mismatches > 0) {
+    console.error(`Mismatch: ${mismatches}/${SENTENCE_COUNT} sentences returned different matches`);
+    process.exit(1);
+}
+console.log('Both returned the same matches for every sentence');
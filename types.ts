@@ -140,9 +140,12 @@ export interface RichDictionaryResult {
     // Alternative Sources (for "Expand Advanced Usage")
     expandEcMeanings?: DictionaryMeaningCard[];
     ecMeanings?: DictionaryMeaningCard[];
-    source?: 'collins' | 'expand_ec' | 'ec' | 'default';
+    source?: DictionaryCardSource | 'default';
 }
 
+// Youdao strategies ('collins' | 'expand_ec' | 'ec') or another DictionaryEngine id
+export type DictionaryCardSource = 'collins' | 'expand_ec' | 'ec' | 'iciba' | 'free-dict' | 'wiktionary' | 'offline';
+
 export interface DictionaryMeaningCard {
     partOfSpeech: string;
     defCn: string;
@@ -153,6 +156,8 @@ export interface DictionaryMeaningCard {
     cocaRank: number; // Defaults to 0/empty, user editable
     example: string;
     exampleTrans: string;
+    source?: DictionaryCardSource; // Where defCn (or defEn for English-only sources) came from
+    supplementedBy?: DictionaryCardSource[]; // Sources that filled in missing fields when merging
 }
 
 export interface Scenario {
@@ -174,17 +179,53 @@ export interface TranslationEngine {
   secretKey?: string;
   endpoint?: string;
   model?: string;
+
+  // AI (OpenAI-compatible chat completions) Specifics
+  systemPrompt?: string; // Optional override, supports {target} placeholder
+  temperature?: number;
   
   // Tencent / Cloud Specifics
   region?: string;
   projectId?: number;
 
+  // Usage budget (characters per calendar month, 0/undefined = unlimited)
+  monthlyCharBudget?: number;
+  budgetAction?: EngineBudgetAction;
+
   isTesting?: boolean;
   testResult?: 'success' | 'fail' | null;
   testErrorMessage?: string; // Specific error message from API
   isCustom?: boolean;
 }
 
+// 'fallthrough' skips to the next engine, 'pause' stops auto-translation altogether
+export type EngineBudgetAction = 'fallthrough' | 'pause';
+
+// engineId -> 'YYYY-MM-DD' -> characters sent
+export type EngineUsageLedger = Record<string, Record<string, number>>;
+
+export type EngineErrorKind = 'auth' | 'quota' | 'timeout' | 'network' | 'unknown';
+
+export interface EngineFailureRecord {
+  time: number;
+  kind: EngineErrorKind;
+  message: string;
+}
+
+export interface EngineHealth {
+  engineId: string;
+  consecutiveFailures: number;
+  circuitOpenUntil: number; // Timestamp, 0 when the circuit is closed
+  lastSuccessAt?: number;
+  recentFailures: EngineFailureRecord[]; // Newest first
+}
+
+export interface TranslationCacheStats {
+  hits: number; // Sentences served from cache
+  misses: number; // Sentences sent to an engine
+  since: number; // Timestamp of the last reset
+}
+
 export interface DictionaryEngine {
   id: string;
   name: string;
@@ -193,6 +234,14 @@ export interface DictionaryEngine {
   isEnabled: boolean; // Always true in UI
   priority: number;
   description?: string;
+  apiKey?: string; // Only needed by sources that require one (iciba)
+}
+
+export interface OfflineDictionaryInfo {
+  entries: number; // 0 when no pack is imported
+  importedAt: number;
+  fileName: string;
+  store?: string; // IndexedDB store holding the pack; imports fill the other one, then switch
 }
 
 export interface AnkiTemplateConfig {
@@ -245,6 +294,7 @@ export interface WordInteractionConfig {
   dismissDelay: number; // ms to wait before hiding bubble
   allowMultipleBubbles: boolean; // if true, new bubbles don't close old ones
   onlineDictUrl?: string; // New: URL template for online dictionary link
+  selectionLookupButton?: boolean; // Mini-button next to selected text for lookup / capture
 }
 
 export type PopupCardField = 'context' | 'mixed' | 'dictExample';
@@ -297,11 +347,33 @@ export interface AutoTranslateConfig {
   translateWholePage: boolean; // New setting for scanning scope
   matchInflections: boolean; // New: Smart morphology matching
   aggressiveMode: boolean; // NEW: Aggressive Dictionary Matching
-  blacklist: string[];
-  whitelist: string[];
+  englishPageMode: boolean; // Gloss wordbook words with Chinese on English pages (no translation API)
+  lazyTranslate: boolean; // Only translate blocks once they come near the viewport
+  lazyPrefetchMargin: number; // px above/below the viewport that count as "near"
+  siteProfiles: SiteProfile[];
+  blacklist?: string[]; // Legacy regex lists, converted into siteProfiles by migrateLegacySiteLists
+  whitelist?: string[];
+  droppedLegacySiteRules?: string[]; // Legacy entries the migration couldn't keep, listed in the site rules panel until dismissed
   ttsSpeed: number;
 }
 
+// Per-site overrides; a field left undefined falls back to the global setting
+export interface SiteOverrides {
+  enabled?: boolean; // Auto-translate on this site (false: the extension stays off entirely)
+  bilingualMode?: boolean;
+  translateWholePage?: boolean;
+  includeSelectors?: string; // Only scan inside these (CSS selector list)
+  excludeSelectors?: string; // Never scan inside these
+  scenarioIds?: string[]; // Only replace words from these scenarios
+  densityPercent?: number; // Replaces every category's density with this percentage
+}
+
+export interface SiteProfile {
+  id: string;
+  pattern: string; // "zhihu.com" (and subdomains), "*.qq.com", "example.com/news/*", "/^evil\.(com|net)$/" (regex on the hostname)
+  overrides: SiteOverrides;
+}
+
 export interface MergeStrategyConfig {
   strategy: 'by_word' | 'by_word_and_meaning';
   showMultiExamples: boolean;
@@ -321,3 +393,32 @@ export interface MergeStrategyConfig {
 
 export type AppView = 'dashboard' | 'words' | 'settings' | 'word-detail';
 export type SettingSectionId = 'general' | 'visual-styles' | 'scenarios' | 'word-bubble' | 'page-widget' | 'engines' | 'preview' | 'anki';
+
+// --- Runtime Messages ---
+
+// Sent to the background (content script, options page)
+export type BackgroundMessage =
+  | { action: 'TRANSLATE_TEXT'; text?: string; sentences?: string[]; target?: string; engine?: TranslationEngine } // No engine: failover + cache
+  | { action: 'SET_REPLACEMENTS_SHOWN'; applied: boolean }
+  | { action: 'GET_TRANSLATION_CACHE_STATS' }
+  | { action: 'CLEAR_TRANSLATION_CACHE' }
+  | { action: 'RESET_ENGINE_USAGE'; engineId: string }
+  | { action: 'LOOKUP_WORD_RAW'; text: string }
+  | { action: 'LOOKUP_WORD_RICH'; text: string }
+  | { action: 'LOOKUP_WORD_LOCAL'; text: string }
+  | { action: 'SUGGEST_WORD'; text: string }
+  | { action: 'OPEN_OPTIONS_PAGE'; path: string };
+
+// Sent to content scripts (commands, context menu, relayed frame state)
+export type ContentMessage =
+  | { action: 'TRIGGER_TRANSLATION' }
+  | { action: 'TOGGLE_REPLACEMENTS' }
+  | { action: 'SET_REPLACEMENTS_SHOWN'; applied: boolean }
+  | { action: 'LOOKUP_SELECTION'; text?: string };
+
+export interface MessageResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  budgetPaused?: boolean; // TRANSLATE_TEXT: every engine is over its budget
+}
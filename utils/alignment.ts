@@ -0,0 +1,91 @@
+import { TranslationEngine } from "../types";
+import { translateText, getBatchAdapter, TranslationResult } from "./api";
+import { SENTENCE_DELIMITER, splitByDelimiter } from "./text-processing";
+import { recordEngineUsage } from "./engine-usage";
+
+// Parallel single-sentence requests when a batch has to be retried
+const RETRY_CONCURRENCY = 3;
+
+const hasChinese = (text: string) => /[一-龥]/.test(text);
+
+/**
+ * A batch is aligned when every source sentence got exactly one translation:
+ * same count, nothing empty for real text, and no leaked delimiter
+ * (which means the engine merged two segments).
+ */
+export const isAligned = (sources: string[], translations: string[]): boolean => {
+    if (sources.length !== translations.length) return false;
+    return sources.every((src, idx) => {
+        const trans = (translations[idx] || '').trim();
+        if (!trans) return !src.trim();
+        if (trans.includes('|||')) return false;
+        // An untranslated Chinese sentence echoed back as-is is also a failed segment
+        return !(hasChinese(src) && trans === src.trim());
+    });
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const out: T[][] = [];
+    for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+    return out;
+};
+
+/**
+ * Fallback: translate each sentence on its own so a bad segment can't shift its neighbours.
+ */
+const translateIndividually = async (engine: TranslationEngine, sentences: string[], target: string, signal?: AbortSignal): Promise<string[]> => {
+    const results: string[] = new Array(sentences.length).fill('');
+    for (const group of chunk(sentences.map((s, idx) => ({ s, idx })), RETRY_CONCURRENCY)) {
+        await Promise.all(group.map(async ({ s, idx }) => {
+            if (!s.trim()) return;
+            try {
+                results[idx] = (await translateText(engine, s, target, signal)).text;
+            } catch (e) {
+                // Leave this sentence empty; a single failure shouldn't drop the whole batch
+                console.warn(`ContextLingo: Single-sentence retry failed on ${engine.id}`, e);
+            }
+        }));
+    }
+    // Surface total failure so the failover chain can move to the next engine
+    if (sentences.some(s => s.trim()) && results.every(r => !r)) {
+        throw new Error("逐句重试全部失败");
+    }
+    return results;
+};
+
+const translateChunk = async (engine: TranslationEngine, sentences: string[], target: string, signal?: AbortSignal): Promise<string[]> => {
+    const batch = getBatchAdapter(engine);
+
+    let translations: string[];
+    if (batch) {
+        translations = await batch.translate(engine, sentences, target, signal);
+        // Billed even if misaligned; the per-sentence retries below record their own usage
+        recordEngineUsage(engine.id, sentences.reduce((acc, s) => acc + s.length, 0));
+    } else {
+        // Engines without list input still get the legacy delimiter join
+        const { text } = await translateText(engine, sentences.join(SENTENCE_DELIMITER), target, signal);
+        translations = splitByDelimiter(text);
+    }
+
+    if (isAligned(sentences, translations)) return translations;
+
+    console.warn(`ContextLingo: ${engine.id} returned ${translations.length}/${sentences.length} segments, retrying individually.`);
+    if (sentences.length === 1) return translations.length > 0 ? [translations.join(' ')] : [''];
+    return translateIndividually(engine, sentences, target, signal);
+};
+
+/**
+ * Sentence-aligned translation for any engine: uses native array inputs where
+ * available, verifies segment counts and retries misaligned batches per sentence.
+ */
+export const translateSentences = async (engine: TranslationEngine, sentences: string[], target: string = 'en', signal?: AbortSignal): Promise<TranslationResult> => {
+    const batch = getBatchAdapter(engine);
+    const chunks = chunk(sentences, batch ? batch.maxItems : 20);
+
+    const aligned: string[] = [];
+    for (const part of chunks) {
+        aligned.push(...await translateChunk(engine, part, target, signal));
+    }
+
+    return { text: aligned.join(' '), engineId: engine.id, sentences: aligned };
+};
@@ -1,6 +1,82 @@
 
-import { TranslationEngine } from "../types";
-import { getHash, getHmac, toHex } from './crypto';
+import { TranslationEngine, EngineErrorKind } from "../types";
+import { DEFAULT_AI_SYSTEM_PROMPT } from "../constants";
+import { getHash, getHashBytes, getHmac, toHex, toBase64, md5 } from './crypto';
+import { recordEngineUsage } from './engine-usage';
+
+/**
+ * Error carrying a failure category so the failover chain can decide
+ * whether to open the engine's circuit.
+ */
+export class EngineError extends Error {
+  kind: EngineErrorKind;
+
+  constructor(message: string, kind: EngineErrorKind) {
+    super(message);
+    this.name = 'EngineError';
+    this.kind = kind;
+  }
+}
+
+const kindFromStatus = (status: number): EngineErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429 || status === 456) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  return 'unknown';
+};
+
+/**
+ * Best-effort classification for errors thrown without a kind
+ * (provider messages, fetch TypeErrors, errors relayed as strings).
+ */
+export const classifyEngineError = (error: unknown): EngineErrorKind => {
+  if (error instanceof EngineError) return error.kind;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/quota|limit ?exceeded|too many requests|insufficient|余额|额度|欠费|54004|54003/i.test(message)) return 'quota';
+  if (/auth|credential|signature|invalid.*key|api key|unauthori[sz]ed|forbidden|鉴权|签名|52003|54001/i.test(message)) return 'auth';
+  if (/timeout|timed out|超时/i.test(message)) return 'timeout';
+  if (/failed to fetch|networkerror|network error|load failed/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Normalized result shared by every engine adapter.
+ */
+export interface TranslationResult {
+  text: string;
+  engineId: string;
+  sentences?: string[]; // Present when the engine returned sentence-aligned output
+}
+
+const STANDARD_TIMEOUT = 15 * 1000;
+const AI_TIMEOUT = 60 * 1000;
+
+/**
+ * fetch with a timeout per HTTP request, so a long page split into many
+ * requests is never cut off as a whole. `signal` lets the caller cancel
+ * whatever is still in flight (e.g. when failover moves to the next engine).
+ */
+const fetchWithTimeout = async (engine: TranslationEngine, url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> => {
+  const ms = engine.type === 'ai' ? AI_TIMEOUT : STANDARD_TIMEOUT;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ms);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+  if (signal?.aborted) controller.abort();
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new EngineError(`请求超时 (${ms / 1000}s)`, 'timeout');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
 
 export interface TencentTMTParams {
   SourceText: string;
@@ -10,10 +86,9 @@ export interface TencentTMTParams {
 }
 
 /**
- * Call Tencent Cloud TMT API (TextTranslate)
- * Doc: https://cloud.tencent.com/document/api/551/15619
+ * Signs (TC3-HMAC-SHA256) and sends a Tencent Cloud TMT request.
  */
-export const callTencentTranslation = async (engine: TranslationEngine, sourceText: string = 'Hello', target: string = 'en'): Promise<any> => {
+const requestTencent = async (engine: TranslationEngine, ACTION: string, payloadObj: Record<string, unknown>, signal?: AbortSignal): Promise<any> => {
   if (!engine.appId || !engine.secretKey) {
     throw new Error("Missing SecretId or SecretKey");
   }
@@ -23,7 +98,6 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
   const ENDPOINT = engine.endpoint || "tmt.tencentcloudapi.com";
   const REGION = engine.region || "ap-shanghai";
   const SERVICE = "tmt";
-  const ACTION = "TextTranslate";
   const VERSION = "2018-03-21";
 
   // 1. Time params
@@ -31,12 +105,6 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
   const date = new Date(now * 1000).toISOString().split('T')[0]; // UTC Date YYYY-MM-DD
 
   // 2. Payload
-  const payloadObj = {
-    SourceText: sourceText,
-    Source: "auto",
-    Target: target, 
-    ProjectId: Number(engine.projectId) || 0
-  };
   const payload = JSON.stringify(payloadObj);
 
   // 3. Canonical Request
@@ -81,7 +149,7 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
     `Signature=${signature}`;
 
   // 7. Execute Request
-  const response = await fetch(`https://${ENDPOINT}`, {
+  const response = await fetchWithTimeout(engine, `https://${ENDPOINT}`, {
     method: "POST",
     headers: {
       "Authorization": authorization,
@@ -93,20 +161,525 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
       "X-TC-Region": REGION
     },
     body: payload
-  });
+  }, signal);
 
   const resJson = await response.json();
   
   if (resJson.Response && resJson.Response.Error) {
-    throw new Error(resJson.Response.Error.Message);
+    const code: string = resJson.Response.Error.Code || '';
+    let kind: EngineErrorKind = 'unknown';
+    if (code.startsWith('AuthFailure')) kind = 'auth';
+    else if (/LimitExceeded|NoFreeAmount|ServiceIsolate|UserNotRegistered/.test(code)) kind = 'quota';
+    throw new EngineError(resJson.Response.Error.Message, kind);
   }
 
   return resJson;
 };
 
+/**
+ * Call Tencent Cloud TMT API (TextTranslate)
+ * Doc: https://cloud.tencent.com/document/api/551/15619
+ */
+export const callTencentTranslation = async (engine: TranslationEngine, sourceText: string = 'Hello', target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  return requestTencent(engine, "TextTranslate", {
+    SourceText: sourceText,
+    Source: "auto",
+    Target: target, 
+    ProjectId: Number(engine.projectId) || 0
+  }, signal);
+};
+
+/**
+ * Call Tencent Cloud TMT API (TextTranslateBatch), one output per input item
+ * Doc: https://cloud.tencent.com/document/api/551/40566
+ */
+export const callTencentBatchTranslation = async (engine: TranslationEngine, sourceTextList: string[], target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  return requestTencent(engine, "TextTranslateBatch", {
+    Source: "auto",
+    Target: target,
+    ProjectId: Number(engine.projectId) || 0,
+    SourceTextList: sourceTextList
+  }, signal);
+};
+
 // Placeholder for legacy support if needed
 export const prepareTencentParams = (engine: TranslationEngine, sourceText: string) => {
     return {
         message: "Use callTencentTranslation for real requests"
     };
 };
+
+/**
+ * Call Google Cloud Translation API (Basic v2)
+ * Doc: https://cloud.google.com/translate/docs/reference/rest/v2/translate
+ */
+export const callGoogleTranslation = async (engine: TranslationEngine, sourceText: string | string[], target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  if (!engine.apiKey) {
+    throw new Error("Missing API Key");
+  }
+
+  const ENDPOINT = engine.endpoint || "https://translation.googleapis.com/language/translate/v2";
+  const response = await fetchWithTimeout(engine, `${ENDPOINT}?key=${encodeURIComponent(engine.apiKey)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    body: JSON.stringify({ q: sourceText, target, format: "text" })
+  }, signal);
+
+  const resJson = await response.json();
+
+  if (resJson.error) {
+    throw new EngineError(resJson.error.message || `HTTP ${response.status}`, kindFromStatus(resJson.error.code || response.status));
+  }
+
+  return resJson;
+};
+
+/**
+ * Call DeepL API (/v2/translate)
+ * Doc: https://developers.deepl.com/docs/api-reference/translate
+ */
+export const callDeepLTranslation = async (engine: TranslationEngine, sourceText: string | string[], target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  if (!engine.apiKey) {
+    throw new Error("Missing API Key");
+  }
+
+  // Free keys end with ":fx" and must use the api-free host
+  const defaultEndpoint = engine.apiKey.endsWith(':fx')
+    ? "https://api-free.deepl.com/v2/translate"
+    : "https://api.deepl.com/v2/translate";
+  // The official hosts (older configs stored the free one) always follow the key
+  const ENDPOINT = engine.endpoint && !/^https:\/\/api(-free)?\.deepl\.com\//.test(engine.endpoint) ? engine.endpoint : defaultEndpoint;
+  const targetLang = target === 'en' ? 'EN-US' : target.toUpperCase();
+
+  const response = await fetchWithTimeout(engine, ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Authorization": `DeepL-Auth-Key ${engine.apiKey}`,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({ text: Array.isArray(sourceText) ? sourceText : [sourceText], target_lang: targetLang })
+  }, signal);
+
+  if (!response.ok) {
+    let message = `HTTP ${response.status}`;
+    try {
+      const errJson = await response.json();
+      if (errJson.message) message = errJson.message;
+    } catch (e) {
+      // Body is not JSON (e.g. 456 Quota Exceeded), keep status text
+    }
+    throw new EngineError(message, kindFromStatus(response.status));
+  }
+
+  return response.json();
+};
+
+/**
+ * Call Baidu General Translation API
+ * Doc: https://fanyi-api.baidu.com/doc/21
+ */
+export const callBaiduTranslation = async (engine: TranslationEngine, sourceText: string, target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  if (!engine.appId || !engine.secretKey) {
+    throw new Error("Missing APP ID or Secret Key");
+  }
+
+  const ENDPOINT = engine.endpoint || "https://fanyi-api.baidu.com/api/trans/vip/translate";
+  const salt = String(Date.now());
+  const sign = md5(engine.appId + sourceText + salt + engine.secretKey);
+
+  const body = new URLSearchParams({
+    q: sourceText,
+    from: "auto",
+    to: target,
+    appid: engine.appId,
+    salt,
+    sign
+  });
+
+  const response = await fetchWithTimeout(engine, ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: body.toString()
+  }, signal);
+
+  const resJson = await response.json();
+
+  // Baidu returns "52000" for success on some accounts
+  if (resJson.error_code && resJson.error_code !== "52000") {
+    const kind: EngineErrorKind = ['52003', '54001'].includes(resJson.error_code) ? 'auth'
+      : ['54003', '54004', '54005'].includes(resJson.error_code) ? 'quota' : 'unknown';
+    throw new EngineError(`${resJson.error_code}: ${resJson.error_msg}`, kind);
+  }
+
+  return resJson;
+};
+
+/**
+ * Call Volcengine Machine Translation API (TranslateText)
+ * Doc: https://www.volcengine.com/docs/4640/65067
+ */
+export const callVolcengineTranslation = async (engine: TranslationEngine, sourceText: string | string[], target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  const ACCESS_KEY = engine.appId || engine.apiKey;
+  if (!ACCESS_KEY || !engine.secretKey) {
+    throw new Error("Missing AccessKeyId or SecretAccessKey");
+  }
+
+  const HOST = engine.endpoint || "translate.volcengineapi.com";
+  const REGION = engine.region || "cn-north-1";
+  const SERVICE = "translate";
+  const QUERY = "Action=TranslateText&Version=2020-06-01";
+
+  // 1. Time params (YYYYMMDDTHHMMSSZ)
+  const xDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const shortDate = xDate.substring(0, 8);
+
+  // 2. Payload
+  const payload = JSON.stringify({ TargetLanguage: target, TextList: Array.isArray(sourceText) ? sourceText : [sourceText] });
+  const hashedPayload = await getHash(payload);
+
+  // 3. Canonical Request
+  const canonicalHeaders =
+    `content-type:application/json\n` +
+    `host:${HOST}\n` +
+    `x-content-sha256:${hashedPayload}\n` +
+    `x-date:${xDate}\n`;
+  const signedHeaders = "content-type;host;x-content-sha256;x-date";
+  const canonicalRequest = [
+    "POST",
+    "/",
+    QUERY,
+    canonicalHeaders,
+    signedHeaders,
+    hashedPayload
+  ].join("\n");
+
+  // 4. String to Sign
+  const algorithm = "HMAC-SHA256";
+  const credentialScope = `${shortDate}/${REGION}/${SERVICE}/request`;
+  const stringToSign = [algorithm, xDate, credentialScope, await getHash(canonicalRequest)].join("\n");
+
+  // 5. Signature
+  const kDate = await getHmac(engine.secretKey, shortDate);
+  const kRegion = await getHmac(kDate, REGION);
+  const kService = await getHmac(kRegion, SERVICE);
+  const kSigning = await getHmac(kService, "request");
+  const signature = toHex(await getHmac(kSigning, stringToSign));
+
+  const authorization =
+    `${algorithm} ` +
+    `Credential=${ACCESS_KEY}/${credentialScope}, ` +
+    `SignedHeaders=${signedHeaders}, ` +
+    `Signature=${signature}`;
+
+  const response = await fetchWithTimeout(engine, `https://${HOST}/?${QUERY}`, {
+    method: "POST",
+    headers: {
+      "Authorization": authorization,
+      "Content-Type": "application/json",
+      "X-Content-Sha256": hashedPayload,
+      "X-Date": xDate
+    },
+    body: payload
+  }, signal);
+
+  const resJson = await response.json();
+
+  if (resJson.ResponseMetadata?.Error) {
+    const { Code = '', Message } = resJson.ResponseMetadata.Error;
+    let kind: EngineErrorKind = kindFromStatus(response.status);
+    if (/Signature|AccessDenied|InvalidAccessKey|InvalidCredential/i.test(Code)) kind = 'auth';
+    else if (/Quota|LimitExceeded|FlowLimit|TooManyRequests|Arrearage|Overdue/i.test(Code)) kind = 'quota';
+    throw new EngineError(Message || Code, kind);
+  }
+
+  return resJson;
+};
+
+/**
+ * Call iFlytek Machine Translation API (niutrans, /v2/ots)
+ * Doc: https://www.xfyun.cn/doc/nlp/niutrans/API.html
+ */
+export const callIflytekTranslation = async (engine: TranslationEngine, sourceText: string, target: string = 'en', signal?: AbortSignal): Promise<any> => {
+  if (!engine.appId || !engine.apiKey || !engine.secretKey) {
+    throw new Error("Missing APPID, APIKey or APISecret");
+  }
+
+  const ENDPOINT = new URL(engine.endpoint || "https://ntrans.xfyun.cn/v2/ots");
+  const HOST = ENDPOINT.host;
+  const PATH = ENDPOINT.pathname;
+  // iFlytek uses "cn" for Chinese and has no auto-detect
+  const to = target === 'zh' ? 'cn' : target;
+  const from = to === 'cn' ? 'en' : 'cn';
+
+  const payload = JSON.stringify({
+    common: { app_id: engine.appId },
+    business: { from, to },
+    data: { text: toBase64(sourceText) }
+  });
+
+  const date = new Date().toUTCString();
+  const digest = `SHA-256=${toBase64(await getHashBytes(payload))}`;
+  const signatureOrigin = `host: ${HOST}\ndate: ${date}\nPOST ${PATH} HTTP/1.1\ndigest: ${digest}`;
+  const signature = toBase64(await getHmac(engine.secretKey, signatureOrigin));
+  const authorization =
+    `api_key="${engine.apiKey}", ` +
+    `algorithm="hmac-sha256", ` +
+    `headers="host date request-line digest", ` +
+    `signature="${signature}"`;
+
+  // Host and Date are forbidden request headers in the browser, so the signed values go in the query instead
+  ENDPOINT.search = new URLSearchParams({ authorization: toBase64(authorization), date, host: HOST }).toString();
+
+  const response = await fetchWithTimeout(engine, ENDPOINT.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "application/json,version=1.0",
+      "Digest": digest
+    },
+    body: payload
+  }, signal);
+
+  const resJson = await response.json();
+
+  if (resJson.code !== 0) {
+    // 10313: APPID / APIKey mismatch, 11200: no licence for the service, 11201: daily limit reached
+    const kind: EngineErrorKind = [10313, 11200].includes(resJson.code) ? 'auth'
+      : resJson.code === 11201 ? 'quota' : kindFromStatus(response.status);
+    throw new EngineError(resJson.message || `Error code ${resJson.code}`, kind);
+  }
+
+  return resJson;
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  zh: 'Simplified Chinese',
+};
+
+// OpenAI returns { error: { message } }, some compatible servers a bare string
+const readChatError = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : '';
+};
+
+/**
+ * Extracts the translations array from a model reply, tolerating
+ * markdown code fences and a bare array instead of {"translations": [...]}.
+ */
+const parseAlignedJson = (content: string): string[] => {
+  const cleaned = content.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) throw new Error("AI 返回内容不是 JSON");
+
+  const parsed = JSON.parse(cleaned.substring(start, Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']')) + 1));
+  const list = Array.isArray(parsed) ? parsed : parsed.translations;
+  if (!Array.isArray(list)) throw new Error("AI 返回 JSON 缺少 translations 字段");
+
+  return list.map(item => String(item ?? ''));
+};
+
+/**
+ * Call an OpenAI-compatible Chat Completions API (OpenAI, Gemini, Ollama, llama.cpp...)
+ * The model is asked for sentence-aligned JSON so no delimiter is needed.
+ */
+export const callChatCompletionTranslation = async (engine: TranslationEngine, sentences: string[], target: string = 'en', signal?: AbortSignal): Promise<string[]> => {
+  if (!engine.endpoint) {
+    throw new Error("Missing Base URL");
+  }
+  if (!engine.model) {
+    throw new Error("Missing Model Name");
+  }
+
+  // Accept both ".../v1" and a full ".../chat/completions" URL
+  const base = engine.endpoint.replace(/\/+$/, '');
+  const ENDPOINT = base.endsWith('/chat/completions') ? base : `${base}/chat/completions`;
+  const systemPrompt = (engine.systemPrompt || DEFAULT_AI_SYSTEM_PROMPT).replace(/{target}/g, LANGUAGE_NAMES[target] || target);
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  // Local servers (Ollama / llama.cpp) usually need no key
+  if (engine.apiKey) headers["Authorization"] = `Bearer ${engine.apiKey}`;
+
+  const response = await fetchWithTimeout(engine, ENDPOINT, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: engine.model,
+      temperature: engine.temperature ?? 0.2,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: JSON.stringify(sentences) }
+      ]
+    })
+  }, signal);
+
+  // Proxies and stopped local servers answer with HTML / plain text, so the status is checked before parsing
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    let message = '';
+    try {
+      message = readChatError(JSON.parse(body).error);
+    } catch {
+      message = body.trim().slice(0, 200);
+    }
+    throw new EngineError(message || `HTTP ${response.status}`, kindFromStatus(response.status));
+  }
+
+  const resJson = await response.json();
+  if (resJson.error) {
+    throw new EngineError(readChatError(resJson.error) || "Unknown error", 'unknown');
+  }
+
+  const content = resJson.choices?.[0]?.message?.content;
+  if (!content) throw new Error("Empty translation result");
+
+  // Count verification and retries are handled by utils/alignment.ts
+  return parseAlignedJson(content);
+};
+
+type EngineAdapter = (engine: TranslationEngine, sourceText: string, target: string, signal?: AbortSignal) => Promise<string>;
+
+/**
+ * Maps each built-in engine id to its request + response parser.
+ */
+const ENGINE_ADAPTERS: Record<string, EngineAdapter> = {
+  'tencent': async (engine, text, target, signal) => {
+    const res = await callTencentTranslation(engine, text, target, signal);
+    return res.Response?.TargetText || '';
+  },
+  'google': async (engine, text, target, signal) => {
+    const res = await callGoogleTranslation(engine, text, target, signal);
+    return res.data?.translations?.[0]?.translatedText || '';
+  },
+  'deepl': async (engine, text, target, signal) => {
+    const res = await callDeepLTranslation(engine, text, target, signal);
+    return res.translations?.[0]?.text || '';
+  },
+  'baidu': async (engine, text, target, signal) => {
+    const res = await callBaiduTranslation(engine, text, target, signal);
+    // Baidu splits the input by line and returns one item per line
+    return (res.trans_result || []).map((r: any) => r.dst).join('\n');
+  },
+  'volcengine': async (engine, text, target, signal) => {
+    const res = await callVolcengineTranslation(engine, text, target, signal);
+    return res.TranslationList?.[0]?.Translation || '';
+  },
+  'iflytek': async (engine, text, target, signal) => {
+    const res = await callIflytekTranslation(engine, text, target, signal);
+    return res.data?.result?.trans_result?.dst || '';
+  },
+  'custom-mock': async (_engine, text) => `Simulated: ${text}`,
+};
+
+const aiAdapter: EngineAdapter = async (engine, text, target, signal) => {
+  const [translation] = await callChatCompletionTranslation(engine, [text], target, signal);
+  return translation;
+};
+
+const getAdapter = (engine: TranslationEngine): EngineAdapter | undefined => {
+  return engine.type === 'ai' ? aiAdapter : ENGINE_ADAPTERS[engine.id];
+};
+
+type BatchEngineAdapter = (engine: TranslationEngine, sentences: string[], target: string, signal?: AbortSignal) => Promise<string[]>;
+
+/**
+ * Engines whose APIs accept a list of texts and return one item per input.
+ * `maxItems` is the provider's per-request limit.
+ */
+const BATCH_ADAPTERS: Record<string, { maxItems: number, translate: BatchEngineAdapter }> = {
+  'tencent': {
+    maxItems: 50,
+    translate: async (engine, sentences, target, signal) => {
+      const res = await callTencentBatchTranslation(engine, sentences, target, signal);
+      return res.Response?.TargetTextList || [];
+    }
+  },
+  'google': {
+    maxItems: 128,
+    translate: async (engine, sentences, target, signal) => {
+      const res = await callGoogleTranslation(engine, sentences, target, signal);
+      return (res.data?.translations || []).map((t: any) => t.translatedText || '');
+    }
+  },
+  'deepl': {
+    maxItems: 50,
+    translate: async (engine, sentences, target, signal) => {
+      const res = await callDeepLTranslation(engine, sentences, target, signal);
+      return (res.translations || []).map((t: any) => t.text || '');
+    }
+  },
+  'baidu': {
+    maxItems: 50,
+    translate: async (engine, sentences, target, signal) => {
+      // Baidu translates line by line, so newlines inside a sentence would shift the output
+      const res = await callBaiduTranslation(engine, sentences.map(s => s.replace(/\s*\n\s*/g, ' ')).join('\n'), target, signal);
+      return (res.trans_result || []).map((r: any) => r.dst || '');
+    }
+  },
+  'volcengine': {
+    maxItems: 16,
+    translate: async (engine, sentences, target, signal) => {
+      const res = await callVolcengineTranslation(engine, sentences, target, signal);
+      return (res.TranslationList || []).map((t: any) => t.Translation || '');
+    }
+  },
+  'custom-mock': {
+    maxItems: 100,
+    translate: async (_engine, sentences) => sentences.map(s => `Simulated: ${s}`)
+  },
+};
+
+const AI_BATCH_ADAPTER = { maxItems: 40, translate: callChatCompletionTranslation };
+
+/**
+ * Returns the native list-input adapter for an engine, or undefined
+ * when the engine only accepts a single text (e.g. iFlytek).
+ */
+export const getBatchAdapter = (engine: TranslationEngine) => {
+  return engine.type === 'ai' ? AI_BATCH_ADAPTER : BATCH_ADAPTERS[engine.id];
+};
+
+// Settings an engine needs before it can send anything
+const CONFIG_CHECKS: Record<string, (engine: TranslationEngine) => boolean> = {
+  'tencent': e => !!e.appId && !!e.secretKey,
+  'google': e => !!e.apiKey,
+  'deepl': e => !!e.apiKey,
+  'baidu': e => !!e.appId && !!e.secretKey,
+  'volcengine': e => !!(e.appId || e.apiKey) && !!e.secretKey,
+  'iflytek': e => !!e.appId && !!e.apiKey && !!e.secretKey,
+};
+
+const isEngineConfigured = (engine: TranslationEngine): boolean => {
+  if (engine.type === 'ai') return !!engine.endpoint && !!engine.model;
+  return CONFIG_CHECKS[engine.id]?.(engine) ?? true;
+};
+
+/**
+ * Whether failover may use the engine. Incomplete settings are skipped rather
+ * than failed, so they never open the circuit and a fix applies right away.
+ */
+export const isEngineSupported = (engine: TranslationEngine): boolean => {
+  return !!getAdapter(engine) && isEngineConfigured(engine);
+};
+
+/**
+ * Unified entry point, called from the background only since it records usage
+ * (connection tests and the preview panel go through TRANSLATE_TEXT).
+ */
+export const translateText = async (engine: TranslationEngine, sourceText: string, target: string = 'en', signal?: AbortSignal): Promise<TranslationResult> => {
+  const adapter = getAdapter(engine);
+  if (!adapter) {
+    throw new Error(`暂不支持该翻译引擎: ${engine.name}`);
+  }
+
+  const text = await adapter(engine, sourceText, target, signal);
+  // Every request that got an answer is billed, including per-sentence retries
+  recordEngineUsage(engine.id, sourceText.length);
+  if (!text) {
+    throw new Error("Empty translation result");
+  }
+
+  return { text, engineId: engine.id };
+};
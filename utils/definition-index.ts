@@ -0,0 +1,191 @@
+import { WordEntry } from "../types";
+
+// 短语释义里的占位省略号："把…考虑在内"、"对...负责"
+const ELLIPSIS = /…+|\.{2,}|～|~/;
+
+/**
+ * 词条中文释义拆分："中国; 中; 中华人民共和国" -> ["中国", "中", "中华人民共和国"]
+ * 带省略号的短语释义取最长的连续片段 ("把…考虑在内" -> "考虑在内")，单字片段太泛，丢弃。
+ */
+export const splitDefinitions = (translation?: string): string[] => {
+    return translation
+        ?.split(/[,;，；\s]+/)
+        .map(d => d.trim())
+        .map(d => {
+            if (!ELLIPSIS.test(d)) return d;
+            const longest = d.split(ELLIPSIS).reduce((a, b) => (b.length > a.length ? b : a), '');
+            return longest.length >= 2 ? longest : '';
+        })
+        .filter(d => d.length > 0) || [];
+};
+
+export interface DefinitionHit {
+    start: number;
+    end: number;
+    text: string; // The definition that matched
+    entries: { entry: WordEntry, defIndex: number }[]; // Every entry listing it, with its position in that entry's list
+}
+
+/**
+ * 全部中文释义上的 Aho–Corasick 自动机：一句话只扫描一遍，与词库大小无关。
+ *
+ * update() 按词条 id 与旧状态做差量：只有新增释义才会插入 trie，删除的释义
+ * 仅摘掉映射 (节点保留)，失配指针在下一次 search 前统一重算。废弃模式超过
+ * 存活模式时整体重建一次，避免 trie 无限膨胀。
+ */
+export const createDefinitionIndex = () => {
+    // Trie, node 0 is the root
+    let next: Map<string, number>[] = [];
+    let fail: number[] = [];
+    let outLink: number[] = []; // Nearest proper suffix node that ends a pattern, -1 if none
+    let terminal: (string | null)[] = [];
+    let linksDirty = false;
+    let deadPatterns = 0;
+
+    // definition -> entry id -> usage
+    const byDefinition = new Map<string, Map<string, { entry: WordEntry, defIndex: number }>>();
+    // entry id -> what was indexed for it last time
+    const indexed = new Map<string, { entry: WordEntry, definitions: string[] }>();
+
+    const resetTrie = () => {
+        next = [new Map()];
+        fail = [0];
+        outLink = [-1];
+        terminal = [null];
+        deadPatterns = 0;
+        linksDirty = true;
+    };
+
+    const insertPattern = (pattern: string) => {
+        let node = 0;
+        for (const ch of pattern) {
+            let child = next[node].get(ch);
+            if (child === undefined) {
+                child = next.length;
+                next.push(new Map());
+                fail.push(0);
+                outLink.push(-1);
+                terminal.push(null);
+                next[node].set(ch, child);
+            }
+            node = child;
+        }
+        if (terminal[node] === null) {
+            terminal[node] = pattern;
+            linksDirty = true;
+        }
+    };
+
+    const buildLinks = () => {
+        const queue: number[] = [];
+        next[0].forEach(child => {
+            fail[child] = 0;
+            outLink[child] = -1;
+            queue.push(child);
+        });
+        for (let head = 0; head < queue.length; head++) {
+            const node = queue[head];
+            next[node].forEach((child, ch) => {
+                let f = fail[node];
+                while (f !== 0 && !next[f].has(ch)) f = fail[f];
+                const target = next[f].get(ch);
+                fail[child] = target !== undefined && target !== child ? target : 0;
+                outLink[child] = terminal[fail[child]] !== null ? fail[child] : outLink[fail[child]];
+                queue.push(child);
+            });
+        }
+        linksDirty = false;
+    };
+
+    const addEntry = (entry: WordEntry, definitions: string[]) => {
+        definitions.forEach((def, defIndex) => {
+            let users = byDefinition.get(def);
+            if (!users) {
+                users = new Map();
+                byDefinition.set(def, users);
+                insertPattern(def);
+            }
+            // Keep the best rank if an entry lists the same definition twice
+            if (!users.has(entry.id)) users.set(entry.id, { entry, defIndex });
+        });
+        indexed.set(entry.id, { entry, definitions });
+    };
+
+    const removeEntry = (id: string) => {
+        const previous = indexed.get(id);
+        if (!previous) return;
+        previous.definitions.forEach(def => {
+            const users = byDefinition.get(def);
+            if (!users) return;
+            users.delete(id);
+            if (users.size === 0) {
+                byDefinition.delete(def);
+                deadPatterns++;
+            }
+        });
+        indexed.delete(id);
+    };
+
+    const rebuild = () => {
+        const current = Array.from(indexed.values());
+        byDefinition.clear();
+        indexed.clear();
+        resetTrie();
+        current.forEach(({ entry, definitions }) => addEntry(entry, definitions));
+    };
+
+    const update = (entries: WordEntry[]) => {
+        const seen = new Set<string>();
+        entries.forEach(entry => {
+            seen.add(entry.id);
+            const previous = indexed.get(entry.id);
+            const definitions = splitDefinitions(entry.translation);
+            if (previous && previous.definitions.join('\n') === definitions.join('\n')) {
+                // Same definitions: only refresh the entry object (category, text, ...)
+                previous.entry = entry;
+                definitions.forEach(def => {
+                    const usage = byDefinition.get(def)?.get(entry.id);
+                    if (usage) usage.entry = entry;
+                });
+                return;
+            }
+            removeEntry(entry.id);
+            addEntry(entry, definitions);
+        });
+        Array.from(indexed.keys()).filter(id => !seen.has(id)).forEach(removeEntry);
+
+        if (deadPatterns > byDefinition.size) rebuild();
+    };
+
+    const search = (text: string): DefinitionHit[] => {
+        if (linksDirty) buildLinks();
+        const hits: DefinitionHit[] = [];
+        const chars = Array.from(text);
+        let node = 0;
+        let offset = 0; // UTF-16 offset of the current char, so hits index into `text` directly
+
+        chars.forEach(ch => {
+            while (node !== 0 && !next[node].has(ch)) node = fail[node];
+            node = next[node].get(ch) ?? 0;
+            offset += ch.length;
+
+            for (let n = terminal[node] !== null ? node : outLink[node]; n > 0; n = outLink[n]) {
+                const pattern = terminal[n]!;
+                const users = byDefinition.get(pattern);
+                if (!users) continue; // Removed since the last rebuild
+                hits.push({
+                    start: offset - pattern.length,
+                    end: offset,
+                    text: pattern,
+                    entries: Array.from(users.values())
+                });
+            }
+        });
+        return hits;
+    };
+
+    resetTrie();
+    return { update, search };
+};
+
+export type DefinitionIndex = ReturnType<typeof createDefinitionIndex>;
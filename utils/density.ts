@@ -0,0 +1,121 @@
+import { WordEntry, WordCategory, StyleConfig } from "../types";
+import { wordExposureStorage } from "./storage";
+
+// Rendered spans are counted in memory and flushed together, one storage write per burst
+const EXPOSURE_FLUSH_DELAY = 2000;
+
+interface CategoryBudget {
+    used: number; // Replacements actually rendered on this page
+    reserved: number; // Granted by select() but not settled yet (the block is still being rendered)
+    carry: number; // Fractional allowance carried between blocks (percent mode)
+}
+
+/**
+ * Page-level replacement density (StyleConfig.densityMode / densityValue).
+ *
+ * Blocks arrive one at a time as they get translated, so budgets are granted
+ * incrementally:
+ * - 'percent': error diffusion over matched occurrences, e.g. 30% replaces
+ *   roughly every third match instead of the first 30% of the page.
+ * - 'count': the page height is cut into N slots; a block may use the slots
+ *   above and including its own, so N replacements spread top to bottom.
+ * Within a block, the least-seen words win.
+ */
+export const createDensityController = (
+    getStyles: () => Record<WordCategory, StyleConfig>,
+    getExposure: (entryId: string) => number
+) => {
+    const budgets = new Map<WordCategory, CategoryBudget>();
+
+    const getBudget = (category: WordCategory) => {
+        if (!budgets.has(category)) budgets.set(category, { used: 0, reserved: 0, carry: 0.5 });
+        return budgets.get(category)!;
+    };
+
+    const allowanceFor = (category: WordCategory, matched: number, relativePosition: number): number => {
+        const style = getStyles()[category];
+        const budget = getBudget(category);
+        if (!style) return matched;
+
+        const value = Math.max(0, style.densityValue);
+        if (style.densityMode === 'count') {
+            const slot = Math.min(value - 1, Math.floor(relativePosition * value));
+            return Math.max(0, Math.min(matched, slot + 1 - budget.used - budget.reserved));
+        }
+
+        if (value >= 100) return matched;
+        budget.carry += matched * (value / 100);
+        const allowance = Math.min(matched, Math.floor(budget.carry));
+        budget.carry -= allowance;
+        return allowance;
+    };
+
+    /**
+     * Picks which of a block's replacements survive. `relativePosition` is the
+     * block's vertical position in the document (0 = top, 1 = bottom).
+     * The grant stays reserved until settle() reports what was rendered.
+     */
+    const select = <T extends { entry: WordEntry }>(items: T[], relativePosition: number): T[] => {
+        const byCategory = new Map<WordCategory, T[]>();
+        items.forEach(item => {
+            const list = byCategory.get(item.entry.category) || [];
+            list.push(item);
+            byCategory.set(item.entry.category, list);
+        });
+
+        const kept = new Set<T>();
+        byCategory.forEach((list, category) => {
+            const allowance = allowanceFor(category, list.length, Math.min(1, Math.max(0, relativePosition)));
+            // Stable sort keeps document order among equally seen words
+            const ranked = [...list].sort((a, b) => getExposure(a.entry.id) - getExposure(b.entry.id));
+            ranked.slice(0, allowance).forEach(item => kept.add(item));
+            getBudget(category).reserved += allowance;
+        });
+
+        return items.filter(item => kept.has(item));
+    };
+
+    /**
+     * Turns a select() grant into usage. Only `rendered` counts; a granted
+     * replacement the DOM no longer allowed gives its share back.
+     */
+    const settle = (granted: { entry: WordEntry }[], rendered: { entry: WordEntry }[]) => {
+        const count = (list: { entry: WordEntry }[], category: WordCategory) => list.filter(i => i.entry.category === category).length;
+        new Set(granted.map(i => i.entry.category)).forEach(category => {
+            const budget = getBudget(category);
+            const grantedCount = count(granted, category);
+            const renderedCount = count(rendered, category);
+            budget.reserved = Math.max(0, budget.reserved - grantedCount);
+            budget.used += renderedCount;
+            budget.carry += grantedCount - renderedCount;
+        });
+    };
+
+    const reset = () => budgets.clear();
+
+    // Starts one category over, e.g. after its density setting changed
+    const resetCategory = (category: WordCategory) => budgets.delete(category);
+
+    return { select, settle, reset, resetCategory };
+};
+
+let pendingExposure: Record<string, number> = {};
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const flushExposure = () => {
+    flushTimer = null;
+    const deltas = pendingExposure;
+    pendingExposure = {};
+    pendingWrite = pendingWrite.then(async () => {
+        const counts = await wordExposureStorage.getValue();
+        Object.entries(deltas).forEach(([id, n]) => { counts[id] = (counts[id] || 0) + n; });
+        await wordExposureStorage.setValue(counts);
+    }).catch(e => console.warn('ContextLingo: Failed to record word exposure', e));
+};
+
+export const recordWordExposure = (entryIds: string[]) => {
+    if (entryIds.length === 0) return;
+    entryIds.forEach(id => { pendingExposure[id] = (pendingExposure[id] || 0) + 1; });
+    if (!flushTimer) flushTimer = setTimeout(flushExposure, EXPOSURE_FLUSH_DELAY);
+};
@@ -0,0 +1,309 @@
+import { DictionaryEngine, RichDictionaryResult, DictionaryMeaningCard, DictionaryCardSource } from "../types";
+import { parseYoudaoDeep, safeString } from "./youdao-parser";
+import { normalizePartOfSpeech } from "./morphology";
+import { lookupOfflineWord } from "./offline-dictionary";
+import { getRawCached } from "./dictionary-cache";
+
+const LOOKUP_TIMEOUT = 8000;
+
+/**
+ * Maps one dictionary source into RichDictionaryResult.
+ * Returns null when the source has no entry for the word.
+ */
+export interface DictionaryAdapter {
+    id: string;
+    lookup: (word: string, dict: DictionaryEngine) => Promise<RichDictionaryResult | null>;
+}
+
+const fetchJson = async (url: string): Promise<any | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT);
+    try {
+        const res = await fetch(url, { signal: controller.signal });
+        // 404 is how Free Dictionary / Wiktionary say "no entry"
+        if (!res.ok) return null;
+        return await res.json();
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+const emptyResult = (text: string, source: DictionaryCardSource): RichDictionaryResult => ({
+    text,
+    phoneticUs: '',
+    phoneticUk: '',
+    inflections: [],
+    phrases: [],
+    roots: [],
+    synonyms: [],
+    images: [],
+    meanings: [],
+    source,
+});
+
+const makeCard = (source: DictionaryCardSource, fields: Partial<DictionaryMeaningCard>): DictionaryMeaningCard => ({
+    partOfSpeech: '',
+    defCn: '',
+    defEn: '',
+    inflections: [],
+    tags: [],
+    importance: 0,
+    cocaRank: 0,
+    example: '',
+    exampleTrans: '',
+    source,
+    ...fields,
+});
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+
+// Youdao's phonetics come without slashes, the English APIs wrap them in /.../
+const stripSlashes = (phonetic: string) => phonetic.replace(/^\/|\/$/g, '').trim();
+
+const YOUDAO_ENDPOINT = 'https://dict.youdao.com/jsonapi';
+
+/**
+ * Raw Youdao jsonapi payload (cached). WordDetail renders this directly.
+ */
+export const fetchYoudaoRaw = (word: string, endpoint: string = YOUDAO_ENDPOINT): Promise<any | null> => {
+    return getRawCached('youdao', word, () => fetchJson(`${endpoint}?q=${encodeURIComponent(word)}`));
+};
+
+const youdaoAdapter: DictionaryAdapter = {
+    id: 'youdao',
+    lookup: async (word, dict) => {
+        const data = await fetchYoudaoRaw(word, dict.endpoint);
+        if (!data) return null;
+        const result = parseYoudaoDeep(data);
+        const primarySource = result.source === 'default' || !result.source ? 'ec' : result.source;
+        return {
+            ...result,
+            meanings: result.meanings.map(m => ({ ...m, source: primarySource })),
+            expandEcMeanings: result.expandEcMeanings?.map(m => ({ ...m, source: 'expand_ec' })),
+            ecMeanings: result.ecMeanings?.map(m => ({ ...m, source: 'ec' })),
+        };
+    },
+};
+
+const ICIBA_EXCHANGE_KEYS = ['word_pl', 'word_past', 'word_done', 'word_ing', 'word_third', 'word_er', 'word_est'];
+
+const icibaAdapter: DictionaryAdapter = {
+    id: 'iciba',
+    lookup: async (word, dict) => {
+        if (!dict.apiKey) return null;
+        const data = await fetchJson(`${dict.endpoint}?w=${encodeURIComponent(word)}&type=json&key=${encodeURIComponent(dict.apiKey)}`);
+        const symbol = data?.symbols?.[0];
+        if (!symbol?.parts) return null;
+
+        const result = emptyResult(safeString(data.word_name) || word, 'iciba');
+        result.phoneticUk = safeString(symbol.ph_en);
+        result.phoneticUs = safeString(symbol.ph_am);
+        ICIBA_EXCHANGE_KEYS.forEach(key => {
+            const forms = data.exchange?.[key];
+            if (Array.isArray(forms)) result.inflections.push(...forms.map(safeString).filter(Boolean));
+        });
+        symbol.parts.forEach((part: any) => {
+            const means = Array.isArray(part.means) ? part.means.map(safeString).filter(Boolean) : [];
+            if (means.length > 0) {
+                result.meanings.push(makeCard('iciba', { partOfSpeech: safeString(part.part), defCn: means.join('；') }));
+            }
+        });
+        return result.meanings.length > 0 ? result : null;
+    },
+};
+
+const freeDictAdapter: DictionaryAdapter = {
+    id: 'free-dict',
+    lookup: async (word, dict) => {
+        const data = await fetchJson(`${dict.endpoint}${encodeURIComponent(word)}`);
+        if (!Array.isArray(data) || data.length === 0) return null;
+
+        const result = emptyResult(safeString(data[0].word) || word, 'free-dict');
+        const phonetics: any[] = data.flatMap((entry: any) => entry.phonetics || []);
+        const us = phonetics.find(p => p.text && /-us\.mp3$/.test(p.audio || ''));
+        const uk = phonetics.find(p => p.text && /-uk\.mp3$/.test(p.audio || ''));
+        const any = phonetics.find(p => p.text) || { text: safeString(data[0].phonetic) };
+        result.phoneticUs = stripSlashes(safeString((us || any).text));
+        result.phoneticUk = stripSlashes(safeString((uk || any).text));
+
+        const synonyms = new Set<string>();
+        data.forEach((entry: any) => {
+            (entry.meanings || []).forEach((meaning: any) => {
+                const pos = safeString(meaning.partOfSpeech);
+                (meaning.synonyms || []).forEach((s: any) => synonyms.add(safeString(s)));
+                (meaning.definitions || []).forEach((def: any) => {
+                    const defEn = safeString(def.definition);
+                    if (defEn) result.meanings.push(makeCard('free-dict', { partOfSpeech: pos, defEn, example: safeString(def.example) }));
+                });
+            });
+        });
+        result.synonyms = [...synonyms].filter(Boolean).slice(0, 10).map(text => ({ text, trans: '' }));
+        return result.meanings.length > 0 ? result : null;
+    },
+};
+
+const wiktionaryAdapter: DictionaryAdapter = {
+    id: 'wiktionary',
+    lookup: async (word, dict) => {
+        const data = await fetchJson(`${dict.endpoint}${encodeURIComponent(word)}`);
+        const entries: any[] = data?.en;
+        if (!Array.isArray(entries)) return null;
+
+        const result = emptyResult(word, 'wiktionary');
+        entries.forEach(entry => {
+            const pos = safeString(entry.partOfSpeech);
+            (entry.definitions || []).forEach((def: any) => {
+                const defEn = stripHtml(safeString(def.definition));
+                const example = Array.isArray(def.examples) && def.examples.length > 0 ? stripHtml(safeString(def.examples[0])) : '';
+                if (defEn) result.meanings.push(makeCard('wiktionary', { partOfSpeech: pos, defEn, example }));
+            });
+        });
+        return result.meanings.length > 0 ? result : null;
+    },
+};
+
+// ECDICT tag codes -> the exam labels Youdao uses, so tags look the same either way
+const ECDICT_TAG_LABELS: Record<string, string> = {
+    zk: '初中', gk: '高中', cet4: 'CET4', cet6: 'CET6', ky: '考研', toefl: 'TOEFL', ielts: 'IELTS', gre: 'GRE',
+};
+
+// ECDICT exchange types that are actual inflections (0/1 describe the lemma instead)
+const ECDICT_INFLECTION_TYPES = ['p', 'd', 'i', '3', 'r', 't', 's'];
+
+const splitEcdictLines = (field: string) => field.split(/\\n|\n/).map(l => l.trim()).filter(Boolean);
+
+// "n. 书, 书籍" -> ['n.', '书, 书籍']; lines like "[计] ..." have no part of speech
+const splitPosLine = (line: string): [string, string] => {
+    const match = line.match(/^([a-z]+\.)\s*(.*)$/i);
+    return match ? [match[1], match[2]] : ['', line];
+};
+
+const offlineAdapter: DictionaryAdapter = {
+    id: 'offline',
+    lookup: async (word) => {
+        const record = await lookupOfflineWord(word);
+        if (!record) return null;
+
+        const result = emptyResult(record.text, 'offline');
+        result.phoneticUs = record.phonetic;
+        result.phoneticUk = record.phonetic;
+        result.inflections = [...new Set(record.exchange.split('/')
+            .map(part => part.split(':'))
+            .filter(([type, form]) => ECDICT_INFLECTION_TYPES.includes(type) && form)
+            .map(([, form]) => form))];
+
+        const tags = record.tag.split(/\s+/).map(t => ECDICT_TAG_LABELS[t]).filter(Boolean);
+        const english = splitEcdictLines(record.definition).map(splitPosLine);
+
+        result.meanings = splitEcdictLines(record.translation).map(line => {
+            const [pos, defCn] = splitPosLine(line);
+            // Pair with the first unused English line of the same part of speech
+            const enIdx = english.findIndex(([enPos]) => enPos === pos);
+            const defEn = enIdx >= 0 ? english.splice(enIdx, 1)[0][1] : '';
+            return makeCard('offline', {
+                partOfSpeech: pos,
+                defCn,
+                defEn,
+                tags,
+                importance: record.collins,
+                cocaRank: record.frq,
+            });
+        });
+        return result.meanings.length > 0 ? result : null;
+    },
+};
+
+const DICTIONARY_ADAPTERS: Record<string, DictionaryAdapter> = {
+    offline: offlineAdapter,
+    youdao: youdaoAdapter,
+    iciba: icibaAdapter,
+    'free-dict': freeDictAdapter,
+    wiktionary: wiktionaryAdapter,
+};
+
+// --- Merging ---
+
+/**
+ * Normalizes "n.", "N-COUNT", "Noun", "vt." and Youdao EC's "n. 书" to a common key.
+ */
+const normalizePos = (card: DictionaryMeaningCard): string => {
+    return normalizePartOfSpeech(card.partOfSpeech || card.defCn.match(/^([a-z]+)\./i)?.[1] || '');
+};
+
+const addSupplement = (card: DictionaryMeaningCard, source?: DictionaryCardSource) => {
+    if (!source || card.source === source) return;
+    card.supplementedBy = [...new Set([...(card.supplementedBy || []), source])];
+};
+
+/**
+ * Fills gaps in `base` from `extra` without replacing anything base already has:
+ * phonetics, inflections, synonyms and — matched by part of speech, in order —
+ * English definitions and examples for cards that lack them.
+ * Returns how many English definitions were filled in.
+ */
+const mergeInto = (base: RichDictionaryResult, extra: RichDictionaryResult): number => {
+    if (!base.phoneticUs) base.phoneticUs = extra.phoneticUs;
+    if (!base.phoneticUk) base.phoneticUk = extra.phoneticUk;
+    base.inflections = [...new Set([...base.inflections, ...extra.inflections])];
+    if (base.synonyms.length === 0) base.synonyms = extra.synonyms;
+
+    // Queue the extra definitions per part of speech so each is used once
+    const pool = new Map<string, DictionaryMeaningCard[]>();
+    extra.meanings.filter(m => m.defEn).forEach(m => {
+        const key = normalizePos(m);
+        if (!pool.has(key)) pool.set(key, []);
+        pool.get(key)!.push(m);
+    });
+
+    let filled = 0;
+    base.meanings.forEach(card => {
+        if (card.defEn) return;
+        const candidate = pool.get(normalizePos(card))?.shift();
+        if (!candidate) return;
+        card.defEn = candidate.defEn;
+        if (!card.example && candidate.example) card.example = candidate.example;
+        addSupplement(card, candidate.source);
+        filled++;
+    });
+
+    return filled;
+};
+
+// Good enough to skip further (network) sources: phonetics plus bilingual meanings
+const isComplete = (result: RichDictionaryResult) => {
+    return !!result.phoneticUs && !!result.phoneticUk
+        && result.meanings.every(m => m.defCn)
+        && result.meanings.some(m => m.defEn);
+};
+
+/**
+ * Queries the enabled dictionaries in `priority` order. The first source with
+ * meanings becomes the base result; later sources only fill in what it lacks,
+ * and we stop after the first one that contributes English definitions.
+ */
+export const lookupDictionaries = async (word: string, dictionaries: DictionaryEngine[]): Promise<RichDictionaryResult | null> => {
+    let ordered = dictionaries
+        .filter(d => d.isEnabled && DICTIONARY_ADAPTERS[d.id])
+        .sort((a, b) => a.priority - b.priority);
+    // Everything switched off: keep the old behaviour of still asking Youdao
+    if (ordered.length === 0) ordered = dictionaries.filter(d => d.id === 'youdao');
+
+    let base: RichDictionaryResult | null = null;
+    for (const dict of ordered) {
+        if (base && isComplete(base)) break;
+        let result: RichDictionaryResult | null = null;
+        try {
+            result = await DICTIONARY_ADAPTERS[dict.id].lookup(word, dict);
+        } catch (e) {
+            console.warn(`ContextLingo: Dictionary ${dict.id} failed`, e);
+        }
+        if (!result || result.meanings.length === 0) continue;
+
+        if (!base) {
+            base = result;
+        } else if (mergeInto(base, result) > 0) {
+            break;
+        }
+    }
+    return base;
+};
@@ -0,0 +1,131 @@
+import { DictionaryEngine, RichDictionaryResult } from "../types";
+
+const DB_NAME = 'context-lingo-dict-cache';
+const DB_VERSION = 1;
+const RAW_STORE = 'raw'; // Raw source responses, e.g. Youdao jsonapi (WordDetail renders it directly)
+const PARSED_STORE = 'parsed'; // Merged RichDictionaryResult per word + dictionary setup
+
+// Dictionary content barely changes; a week keeps aggressive mode off the network
+const TTL = 7 * 24 * 60 * 60 * 1000;
+
+interface CacheRecord<T> {
+    key: string;
+    value: T;
+    fetchedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                [RAW_STORE, PARSED_STORE].forEach(name => {
+                    if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'key' });
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const readFresh = async <T>(storeName: string, key: string): Promise<T | null> => {
+    try {
+        const db = await openDb();
+        const record = await promisify(db.transaction(storeName).objectStore(storeName).get(key)) as CacheRecord<T> | undefined;
+        if (!record || Date.now() - record.fetchedAt > TTL) return null;
+        return record.value;
+    } catch (e) {
+        console.warn('ContextLingo: Dictionary cache unavailable', e);
+        return null;
+    }
+};
+
+const write = async <T>(storeName: string, key: string, value: T) => {
+    try {
+        const db = await openDb();
+        await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put({ key, value, fetchedAt: Date.now() } as CacheRecord<T>));
+    } catch (e) {
+        console.warn('ContextLingo: Failed to write dictionary cache', e);
+    }
+};
+
+// Concurrent lookups of the same key share one promise
+const inFlight = new Map<string, Promise<any>>();
+
+const dedupe = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const existing = inFlight.get(key);
+    if (existing) return existing;
+    const promise = task().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+};
+
+/**
+ * Read-through cache: returns the cached value when fresh, otherwise runs
+ * `load` once (even for concurrent callers) and stores non-null results.
+ */
+const cached = <T>(storeName: string, key: string, load: () => Promise<T | null>): Promise<T | null> => {
+    return dedupe(`${storeName}:${key}`, async () => {
+        const hit = await readFresh<T>(storeName, key);
+        if (hit !== null) return hit;
+        const value = await load();
+        // Failures and misses are not cached, they may be network blips
+        if (value !== null) await write(storeName, key, value);
+        return value;
+    });
+};
+
+const normalizeWord = (word: string) => word.trim().toLowerCase();
+
+/**
+ * Raw payload of one source (e.g. Youdao jsonapi), loaded at most once per word per TTL.
+ */
+export const getRawCached = (sourceId: string, word: string, load: () => Promise<any | null>): Promise<any | null> => {
+    return cached(RAW_STORE, `${sourceId}:${normalizeWord(word)}`, load);
+};
+
+const richResultKey = (word: string, dictionaries: DictionaryEngine[]) => {
+    const setup = dictionaries
+        .filter(d => d.isEnabled)
+        .sort((a, b) => a.priority - b.priority)
+        .map(d => d.id)
+        .join(',');
+    return `${normalizeWord(word)}|${setup}`;
+};
+
+/**
+ * Parsed + merged lookup result. The key includes the enabled sources and their
+ * order so toggling a dictionary doesn't serve a result built from the old setup.
+ */
+export const getRichResultCached = (
+    word: string,
+    dictionaries: DictionaryEngine[],
+    load: () => Promise<RichDictionaryResult | null>
+): Promise<RichDictionaryResult | null> => {
+    return cached(PARSED_STORE, richResultKey(word, dictionaries), load);
+};
+
+// Fresh cached result for the current setup, without loading anything on a miss
+export const peekRichResultCached = (word: string, dictionaries: DictionaryEngine[]): Promise<RichDictionaryResult | null> => {
+    return readFresh<RichDictionaryResult>(PARSED_STORE, richResultKey(word, dictionaries));
+};
+
+export const clearDictionaryCache = async () => {
+    const db = await openDb();
+    await Promise.all([RAW_STORE, PARSED_STORE].map(name => promisify(db.transaction(name, 'readwrite').objectStore(name).clear())));
+};
@@ -1,10 +1,12 @@
 
 import { RichDictionaryResult, WordEntry } from "../types";
 import { browser } from "wxt/browser";
+import { generateInflections } from "./morphology";
 
-export const fetchRichWordDetails = async (word: string): Promise<RichDictionaryResult> => {
+export const fetchRichWordDetails = async (word: string, localOnly: boolean = false): Promise<RichDictionaryResult> => {
   const response = await browser.runtime.sendMessage({
-    action: 'LOOKUP_WORD_RICH',
+    // localOnly: dictionary cache and offline pack, no network request
+    action: localOnly ? 'LOOKUP_WORD_LOCAL' : 'LOOKUP_WORD_RICH',
     text: word
   });
 
@@ -14,6 +16,21 @@ export const fetchRichWordDetails = async (word: string): Promise<RichDictionary
   return response.data;
 };
 
+/**
+ * Raw Youdao jsonapi payload for WordDetail, served from the background cache.
+ */
+export const fetchYoudaoRawDetails = async (word: string): Promise<any> => {
+  const response = await browser.runtime.sendMessage({
+    action: 'LOOKUP_WORD_RAW',
+    text: word
+  }) as any;
+
+  if (!response) throw new Error("Service unavailable");
+  if (!response.success) throw new Error(response.error || "Lookup failed");
+
+  return response.data;
+};
+
 /**
  * Adapter for bulk import in WordManager.tsx.
  * Maps the RichDictionaryResult to an array of Partial<WordEntry> to satisfy the legacy import logic.
@@ -31,6 +48,9 @@ export const fetchWordDetails = async (word: string, preferredTranslation?: stri
         }
 
         // Map meanings to WordEntry objects
+        // Dictionaries often omit forms; fall back to rule-based ones so matching still works
+        const withFallbackInflections = (forms: string[], pos: string) => forms.length > 0 ? forms : generateInflections(result.text, pos);
+
         return validMeanings.map(m => ({
             text: result.text,
             phoneticUs: result.phoneticUs,
@@ -41,7 +61,7 @@ export const fetchWordDetails = async (word: string, preferredTranslation?: stri
             mixedSentence: '',
             dictionaryExample: m.example,
             dictionaryExampleTranslation: m.exampleTrans,
-            inflections: [...new Set([...result.inflections, ...m.inflections])],
+            inflections: withFallbackInflections([...new Set([...result.inflections, ...m.inflections])], m.partOfSpeech),
             tags: m.tags,
             importance: m.importance,
             cocaRank: m.cocaRank
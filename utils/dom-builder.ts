@@ -1,6 +1,9 @@
 
 import { WordCategory, StyleConfig, OriginalTextConfig } from "../types";
 import { getStyleStr } from "./style-helper";
+import { ChosenSense } from "./sense-scorer";
+
+const escapeAttr = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
 
 /**
  * Builds the HTML string for a replaced word, applying layout and styles.
@@ -11,7 +14,8 @@ export const buildReplacementHtml = (
     category: WordCategory,
     styles: Record<WordCategory, StyleConfig>,
     originalTextConfig: OriginalTextConfig,
-    entryId: string // Added entryId for interaction
+    entryId: string, // Added entryId for interaction
+    sense?: ChosenSense // Disambiguated meaning, shown by the bubble
 ): string => {
     const transStyle = styles[category];
     const origStyle = originalTextConfig.style;
@@ -58,6 +62,7 @@ export const buildReplacementHtml = (
        class="context-lingo-target"
        data-entry-id="${entryId}"
        data-original-text="${targetChinese}"
+       ${sense ? `data-sense-pos="${escapeAttr(sense.partOfSpeech)}" data-sense-meaning="${escapeAttr(sense.meaning)}"` : ''}
        onmouseover="this.style.borderColor='rgba(59, 130, 246, 0.5)'" 
        onmouseout="this.style.borderColor='transparent'"
        >${transPrefix}${englishReplacement}${transSuffix}</span>`;
@@ -106,3 +111,14 @@ export const buildReplacementHtml = (
         return `<ruby class="context-lingo-wrapper" style="ruby-position: ${rubyPosition}; margin: 0; padding: 0; ruby-align: start; -webkit-ruby-align: start; text-align: left;">${baseInner}<rt style="font-size: 100%; font-family: inherit;">${rtInner}</rt></ruby>`;
     }
 };
+
+/**
+ * English-page glosses always use the ruby layout: the page's English word stays
+ * on the baseline (styled as the "translation") with the Chinese meaning above it.
+ */
+export const toGlossLayout = (originalTextConfig: OriginalTextConfig): OriginalTextConfig => ({
+    ...originalTextConfig,
+    show: true,
+    activeMode: 'vertical',
+    vertical: { ...originalTextConfig.vertical, translationFirst: false, baselineTarget: 'translation' }
+});
@@ -0,0 +1,80 @@
+/**
+ * 页面里 document 之外的 DOM 根：开放的 shadow root 与同源 iframe。
+ * 扫描、替换和气泡事件委托都要覆盖到这些地方 (Web Components、嵌入式阅读器)。
+ */
+
+/**
+ * Open shadow roots under `root`, nested ones included. `skip` excludes hosts
+ * such as our own UI.
+ */
+export const collectOpenShadowRoots = (root: Node, skip?: (host: Element) => boolean): ShadowRoot[] => {
+    const found: ShadowRoot[] = [];
+    const visit = (node: Node) => {
+        const walker = document.createTreeWalker(node, NodeFilter.SHOW_ELEMENT);
+        let el: Element | null;
+        while (el = walker.nextNode() as Element | null) {
+            if (el.shadowRoot && !skip?.(el)) {
+                found.push(el.shadowRoot);
+                visit(el.shadowRoot);
+            }
+        }
+    };
+    visit(root);
+    return found;
+};
+
+// null for cross-origin frames (and frames that haven't loaded)
+export const getSameOriginFrameDocument = (frame: HTMLIFrameElement): Document | null => {
+    try {
+        return frame.contentDocument;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * querySelectorAll across the document, its open shadow roots and, with
+ * `frames`, same-origin iframes (recursively).
+ */
+export const deepQuerySelectorAll = <T extends Element = HTMLElement>(selector: string, options: { root?: Document | ShadowRoot, frames?: boolean } = {}): T[] => {
+    const root = options.root || document;
+    const scopes: (Document | ShadowRoot)[] = [root, ...collectOpenShadowRoots(root)];
+    const results: T[] = [];
+    scopes.forEach(scope => {
+        results.push(...Array.from(scope.querySelectorAll<T>(selector)));
+        if (!options.frames) return;
+        scope.querySelectorAll('iframe').forEach(frame => {
+            const doc = getSameOriginFrameDocument(frame);
+            if (doc) results.push(...deepQuerySelectorAll<T>(selector, { root: doc, frames: true }));
+        });
+    });
+    return results;
+};
+
+// Events from inside an open shadow root are retargeted to the host; the composed path keeps the real target
+export const getEventTargetElement = (e: Event): Element | null => {
+    const first = (e.composedPath?.()[0] || e.target) as Node | null;
+    if (!first) return null;
+    return first.nodeType === Node.ELEMENT_NODE ? first as Element : first.parentElement;
+};
+
+/**
+ * An element's (or a selected range's) client rect in the top frame's coordinates
+ * (iframe offsets and borders added up), so an overlay in the top frame can point at it.
+ */
+export const toTopFrameRect = (target: Element | Range): DOMRect => {
+    const rect = target.getBoundingClientRect();
+    let x = rect.x;
+    let y = rect.y;
+    // Not instanceof: ranges from a frame come from another realm
+    const doc = 'startContainer' in target ? target.startContainer.ownerDocument : target.ownerDocument;
+    let win = doc?.defaultView;
+    while (win && win !== window.top && win.frameElement) {
+        const frame = win.frameElement as HTMLElement;
+        const frameRect = frame.getBoundingClientRect();
+        x += frameRect.left + frame.clientLeft;
+        y += frameRect.top + frame.clientTop;
+        win = frame.ownerDocument.defaultView;
+    }
+    return new DOMRect(x, y, rect.width, rect.height);
+};
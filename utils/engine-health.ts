@@ -0,0 +1,133 @@
+import { TranslationEngine, EngineHealth, EngineErrorKind } from "../types";
+import { engineHealthStorage, engineUsageStorage } from "./storage";
+import { translateText, isEngineSupported, classifyEngineError, TranslationResult } from "./api";
+import { translateSentences } from "./alignment";
+import { isOverBudget, BudgetPausedError } from "./engine-usage";
+
+const MAX_RECENT_FAILURES = 10;
+
+// Credentials and quota do not fix themselves within seconds, so open the circuit right away
+const IMMEDIATE_COOLDOWN: Partial<Record<EngineErrorKind, number>> = {
+    auth: 30 * 60 * 1000,
+    quota: 60 * 60 * 1000,
+};
+
+// Transient errors only open the circuit after a streak, with exponential backoff
+const TRANSIENT_FAILURE_THRESHOLD = 3;
+const TRANSIENT_BASE_COOLDOWN = 60 * 1000;
+const TRANSIENT_MAX_COOLDOWN = 10 * 60 * 1000;
+
+const emptyHealth = (engineId: string): EngineHealth => ({
+    engineId,
+    consecutiveFailures: 0,
+    circuitOpenUntil: 0,
+    recentFailures: [],
+});
+
+export const isCircuitOpen = (health: EngineHealth | undefined, now: number = Date.now()): boolean => {
+    return !!health && health.circuitOpenUntil > now;
+};
+
+const getCooldown = (kind: EngineErrorKind, consecutiveFailures: number): number => {
+    const immediate = IMMEDIATE_COOLDOWN[kind];
+    if (immediate) return immediate;
+    if (consecutiveFailures < TRANSIENT_FAILURE_THRESHOLD) return 0;
+    const exponent = consecutiveFailures - TRANSIENT_FAILURE_THRESHOLD;
+    return Math.min(TRANSIENT_BASE_COOLDOWN * Math.pow(2, exponent), TRANSIENT_MAX_COOLDOWN);
+};
+
+// Serialize read-modify-write cycles so parallel batches don't drop each other's updates
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const updateHealth = (engineId: string, updater: (health: EngineHealth) => EngineHealth): Promise<void> => {
+    pendingWrite = pendingWrite.then(async () => {
+        const all = await engineHealthStorage.getValue();
+        const next = updater(all[engineId] || emptyHealth(engineId));
+        await engineHealthStorage.setValue({ ...all, [engineId]: next });
+    }).catch(e => console.warn('ContextLingo: Failed to update engine health', e));
+    return pendingWrite;
+};
+
+export const recordEngineSuccess = (engineId: string) => updateHealth(engineId, health => ({
+    ...health,
+    consecutiveFailures: 0,
+    circuitOpenUntil: 0,
+    lastSuccessAt: Date.now(),
+}));
+
+export const recordEngineFailure = (engineId: string, kind: EngineErrorKind, message: string) => updateHealth(engineId, health => {
+    const now = Date.now();
+    const consecutiveFailures = health.consecutiveFailures + 1;
+    const cooldown = getCooldown(kind, consecutiveFailures);
+    return {
+        ...health,
+        consecutiveFailures,
+        circuitOpenUntil: cooldown > 0 ? now + cooldown : health.circuitOpenUntil,
+        recentFailures: [{ time: now, kind, message }, ...health.recentFailures].slice(0, MAX_RECENT_FAILURES),
+    };
+});
+
+export const resetEngineHealth = (engineId: string) => updateHealth(engineId, () => emptyHealth(engineId));
+
+export interface FailoverRequest {
+    text: string;
+    sentences?: string[]; // When present, results are sentence-aligned (see utils/alignment.ts)
+    target: string;
+}
+
+// Characters the request sends at least once, for the budget check (actual usage is recorded per HTTP request)
+export const countRequestChars = (request: FailoverRequest) => {
+    return request.sentences ? request.sentences.reduce((acc, s) => acc + s.length, 0) : request.text.length;
+};
+
+/**
+ * Tries every enabled engine in list order (the drag order in EnginesSection),
+ * skipping engines whose circuit is open or whose monthly budget is used up,
+ * and recording every outcome.
+ */
+export const translateWithFailover = async (engines: TranslationEngine[], request: FailoverRequest): Promise<TranslationResult> => {
+    const candidates = engines.filter(e => e.isEnabled && isEngineSupported(e));
+    if (candidates.length === 0) {
+        throw new Error("没有可用的翻译引擎");
+    }
+
+    const healthMap = await engineHealthStorage.getValue();
+    const usage = await engineUsageStorage.getValue();
+    const chars = countRequestChars(request);
+    const errors: string[] = [];
+
+    for (const engine of candidates) {
+        if (isCircuitOpen(healthMap[engine.id])) {
+            errors.push(`${engine.name}: 熔断中`);
+            continue;
+        }
+        if (isOverBudget(engine, usage, chars)) {
+            if (engine.budgetAction === 'pause') {
+                throw new BudgetPausedError(`${engine.name} 本月字符预算已用尽，自动翻译已暂停`, engine.id);
+            }
+            errors.push(`${engine.name}: 本月预算已用尽`);
+            continue;
+        }
+
+        // Each HTTP request has its own timeout (see utils/api.ts); aborting here
+        // cancels whatever this engine still has in flight once we move on
+        const controller = new AbortController();
+        try {
+            const result = request.sentences
+                ? await translateSentences(engine, request.sentences, request.target, controller.signal)
+                : await translateText(engine, request.text, request.target, controller.signal);
+            await recordEngineSuccess(engine.id);
+            return result;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const kind = classifyEngineError(error);
+            console.warn(`ContextLingo: Engine ${engine.id} failed (${kind}), trying next.`, message);
+            await recordEngineFailure(engine.id, kind, message);
+            errors.push(`${engine.name}: ${message}`);
+        } finally {
+            controller.abort();
+        }
+    }
+
+    throw new Error(`所有翻译引擎均不可用 — ${errors.join('; ')}`);
+};
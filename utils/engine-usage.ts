@@ -0,0 +1,88 @@
+import { TranslationEngine, EngineUsageLedger } from "../types";
+import { engineUsageStorage } from "./storage";
+
+// Daily buckets older than this are dropped on write; the chart only shows the last 30 days
+const RETENTION_DAYS = 90;
+
+/**
+ * Thrown when an engine with budgetAction 'pause' has used up its monthly budget.
+ * Callers should stop auto-translation instead of trying the next engine.
+ */
+export class BudgetPausedError extends Error {
+    engineId: string;
+    constructor(message: string, engineId: string) {
+        super(message);
+        this.name = 'BudgetPausedError';
+        this.engineId = engineId;
+    }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar day, so the monthly reset matches the user's clock
+export const getDayKey = (date: Date = new Date()) => {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const getMonthPrefix = (date: Date = new Date()) => getDayKey(date).slice(0, 8);
+
+export const getMonthlyUsage = (ledger: EngineUsageLedger, engineId: string, date: Date = new Date()): number => {
+    const prefix = getMonthPrefix(date);
+    return Object.entries(ledger[engineId] || {})
+        .filter(([day]) => day.startsWith(prefix))
+        .reduce((acc, [, chars]) => acc + chars, 0);
+};
+
+/**
+ * Returns the per-day usage of the last `days` days (oldest first), zero-filled.
+ */
+export const getDailyUsage = (ledger: EngineUsageLedger, engineId: string, days: number = 30): { day: string; chars: number }[] => {
+    const byDay = ledger[engineId] || {};
+    const result: { day: string; chars: number }[] = [];
+    const cursor = new Date();
+    cursor.setDate(cursor.getDate() - (days - 1));
+    for (let i = 0; i < days; i++) {
+        const day = getDayKey(cursor);
+        result.push({ day, chars: byDay[day] || 0 });
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return result;
+};
+
+/**
+ * Whether sending `chars` more characters would exceed the engine's monthly budget.
+ */
+export const isOverBudget = (engine: TranslationEngine, ledger: EngineUsageLedger, chars: number): boolean => {
+    if (!engine.monthlyCharBudget || engine.monthlyCharBudget <= 0) return false;
+    return getMonthlyUsage(ledger, engine.id) + chars > engine.monthlyCharBudget;
+};
+
+// Serialize read-modify-write cycles, same as the health store. Only the background
+// writes the ledger (options page tests and previews go through TRANSLATE_TEXT),
+// so this one queue covers every writer.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export const recordEngineUsage = (engineId: string, chars: number): Promise<void> => {
+    if (chars <= 0) return pendingWrite;
+    pendingWrite = pendingWrite.then(async () => {
+        const ledger = await engineUsageStorage.getValue();
+        const today = getDayKey();
+        const cutoff = new Date();
+        cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+        const cutoffKey = getDayKey(cutoff);
+
+        const days = Object.fromEntries(Object.entries(ledger[engineId] || {}).filter(([day]) => day >= cutoffKey));
+        days[today] = (days[today] || 0) + chars;
+        await engineUsageStorage.setValue({ ...ledger, [engineId]: days });
+    }).catch(e => console.warn('ContextLingo: Failed to record engine usage', e));
+    return pendingWrite;
+};
+
+export const resetEngineUsage = (engineId: string): Promise<void> => {
+    pendingWrite = pendingWrite.then(async () => {
+        const ledger = await engineUsageStorage.getValue();
+        const { [engineId]: _, ...rest } = ledger;
+        await engineUsageStorage.setValue(rest);
+    }).catch(e => console.warn('ContextLingo: Failed to reset engine usage', e));
+    return pendingWrite;
+};
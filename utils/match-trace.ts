@@ -0,0 +1,76 @@
+import { WordEntry, WordCategory, StyleConfig } from "../types";
+import { calculateSimilarity, buildSegmentCandidates } from "./matching";
+import { DefinitionIndex, splitDefinitions } from "./definition-index";
+import { planReplacements, PlannedReplacement, ReplacementPlanRequest, RichDataCache, SentencePlanTrace } from "./replacement-planner";
+import { createDensityController } from "./density";
+
+export interface DefinitionAttempt {
+    entry: WordEntry;
+    definition: string;
+    positions: number[]; // Exact occurrences in the sentence
+    bestSegment: string; // Closest sentence segment by calculateSimilarity when there is no exact hit
+    similarity: number;
+}
+
+export interface SentenceTrace extends SentencePlanTrace {
+    attempts: DefinitionAttempt[];
+    densityDropped: (PlannedReplacement & { entry: WordEntry })[]; // Planned, but over the category's density budget
+}
+
+export interface MatchTrace {
+    replacements: (PlannedReplacement & { entry: WordEntry })[]; // What the page would render
+    sentences: SentenceTrace[];
+}
+
+// Each definition of each word that passed the translation check: exact hits, else the closest segment
+const traceDefinitions = (sentence: SentencePlanTrace): DefinitionAttempt[] => {
+    const { source } = sentence;
+    const segments = buildSegmentCandidates(source);
+    return sentence.contextPassed.flatMap(entry => splitDefinitions(entry.translation).map(definition => {
+        const positions: number[] = [];
+        for (let pos = source.indexOf(definition); pos !== -1; pos = source.indexOf(definition, pos + 1)) positions.push(pos);
+        let bestSegment = positions.length > 0 ? definition : "";
+        let similarity = positions.length > 0 ? 1 : 0;
+        if (positions.length === 0) {
+            segments.forEach(segment => {
+                const score = calculateSimilarity(segment, definition);
+                if (score > similarity) { similarity = score; bestSegment = segment; }
+            });
+        }
+        return { entry, definition, positions, bestSegment, similarity };
+    }));
+};
+
+/**
+ * 匹配诊断：用 planReplacements 本身 (带 trace) 规划，再过一遍内容脚本的密度控制，
+ * 回答 "为什么这个词没有被替换"：译文里没有这个词、中文释义没对上、激进模式相似度不够，还是超出了密度。
+ */
+export const traceMatching = (
+    index: DefinitionIndex,
+    entries: WordEntry[],
+    richData: RichDataCache,
+    request: ReplacementPlanRequest,
+    styles: Record<WordCategory, StyleConfig>,
+    getExposure: (entryId: string) => number
+): MatchTrace => {
+    const planTrace: SentencePlanTrace[] = [];
+    const plan = planReplacements(index, entries, richData, request, planTrace);
+
+    const entriesById = new Map(entries.map(e => [e.id, e]));
+    const planned = plan.replacements
+        .map(r => ({ ...r, entry: entriesById.get(r.entryId)! }))
+        .filter(r => r.entry);
+    // The text is treated as one block at the top of a page of its own
+    const density = createDensityController(() => styles, getExposure);
+    const kept = density.select(planned, 0);
+    const dropped = planned.filter(r => !kept.includes(r));
+
+    return {
+        replacements: kept,
+        sentences: planTrace.map(sentence => ({
+            ...sentence,
+            attempts: traceDefinitions(sentence),
+            densityDropped: dropped.filter(r => r.start >= sentence.start && r.start < sentence.start + sentence.source.length)
+        }))
+    };
+};
@@ -0,0 +1,101 @@
+import { browser, Runtime } from 'wxt/browser';
+import { WordEntry } from "../types";
+import { createDefinitionIndex, DefinitionIndex } from "./definition-index";
+import { planReplacements, forgetMisses, ReplacementPlan, ReplacementPlanRequest, MatchWorkerRequest, MatchWorkerResponse, RichDataCache } from "./replacement-planner";
+
+/**
+ * Content-script side of the match worker.
+ *
+ * Extension URLs can't be used as worker scripts from a page origin, so the
+ * bundled worker is fetched and started from a blob URL. Pages whose CSP
+ * forbids blob workers fall back to planning on the main thread with the same
+ * planner, so matching never breaks, it just isn't offloaded.
+ */
+export const createMatchWorkerClient = (initialEntries: WordEntry[]) => {
+    let entries = initialEntries;
+    let worker: Worker | null = null;
+    let localIndex: DefinitionIndex | null = null;
+    // Same lookups as the worker holds, for the main-thread fallback
+    const richData: RichDataCache = {};
+    let nextId = 0;
+    const pending = new Map<number, { request: ReplacementPlanRequest, resolve: (plan: ReplacementPlan) => void, reject: (e: Error) => void }>();
+
+    const planLocally = (request: ReplacementPlanRequest): ReplacementPlan => {
+        if (!localIndex) {
+            localIndex = createDefinitionIndex();
+            localIndex.update(entries);
+        }
+        return planReplacements(localIndex, entries, richData, request);
+    };
+
+    const useMainThread = (reason: unknown) => {
+        console.warn('ContextLingo: Match worker unavailable, matching on the main thread', reason);
+        worker?.terminate();
+        worker = null;
+        // Replay whatever the worker never answered
+        pending.forEach(({ request, resolve, reject }) => {
+            try { resolve(planLocally(request)); } catch (e: any) { reject(e); }
+        });
+        pending.clear();
+    };
+
+    const send = (message: MatchWorkerRequest) => worker?.postMessage(message);
+
+    const ready = (async () => {
+        try {
+            const response = await fetch((browser.runtime as Runtime.Static).getURL('/match-worker.js'));
+            const code = await response.text();
+            const url = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+            worker = new Worker(url);
+            URL.revokeObjectURL(url);
+            worker.onmessage = (event: MessageEvent<MatchWorkerResponse>) => {
+                const message = event.data;
+                const task = pending.get(message.id);
+                if (!task) return;
+                pending.delete(message.id);
+                if (message.type === 'plan') task.resolve(message.plan);
+                else task.reject(new Error(message.error));
+            };
+            // CSP violations surface here rather than as a constructor exception
+            worker.onerror = (event) => useMainThread(event.message);
+            send({ type: 'entries', entries });
+            if (Object.keys(richData).length > 0) send({ type: 'richData', data: richData });
+        } catch (e) {
+            useMainThread(e);
+        }
+    })();
+
+    const updateEntries = (next: WordEntry[]) => {
+        entries = next;
+        localIndex?.update(next);
+        send({ type: 'entries', entries: next });
+    };
+
+    // Dictionary lookups go to the worker once; plan requests only carry the block's text
+    const addRichData = (data: RichDataCache) => {
+        Object.assign(richData, data);
+        send({ type: 'richData', data });
+    };
+
+    const forgetRichDataMisses = () => {
+        forgetMisses(richData);
+        send({ type: 'forgetMisses' });
+    };
+
+    const plan = async (request: ReplacementPlanRequest): Promise<ReplacementPlan> => {
+        await ready;
+        if (!worker) return planLocally(request);
+        return new Promise((resolve, reject) => {
+            const id = nextId++;
+            pending.set(id, { request, resolve, reject });
+            send({ type: 'plan', id, request });
+        });
+    };
+
+    const dispose = () => {
+        worker?.terminate();
+        worker = null;
+    };
+
+    return { updateEntries, addRichData, forgetRichDataMisses, plan, dispose };
+};
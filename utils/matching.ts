@@ -1,12 +1,28 @@
 
 import { WordEntry, RichDictionaryResult } from "../types";
-import { normalizeEnglishText } from "./text-processing";
+import { CATEGORY_MATCH_PRIORITY } from "../constants";
+import { tokenizeEnglish, lemmatize, generateInflections, isAdjective, isNounOnly, normalizePartOfSpeech, LemmaCandidate } from "./morphology";
+import { createDefinitionIndex, DefinitionIndex, splitDefinitions } from "./definition-index";
+import { scoreSense, ChosenSense } from "./sense-scorer";
+
+/**
+ * 一处具体的匹配：原文 [start, end) 区间对应某个词条。
+ * score 为释义贴合度 (0-1)，仅在长度和分类优先级都相同时参与裁决。
+ */
+export interface MatchSpan {
+    start: number;
+    end: number;
+    text: string;
+    entry: WordEntry;
+    score: number;
+    sense?: ChosenSense; // The meaning this occurrence was matched as
+}
 
 // 常见中文停用词/助词，在计算相似度时应忽略
 const CHINESE_STOP_WORDS = new Set(['的', '了', '和', '是', '在', '之', '与', '或', '等', '及', '其', '这', '那', '个']);
 
 // Helper: Calculate Dice Coefficient with Stop Word Filtering
-const calculateSimilarity = (segment: string, definition: string): number => {
+export const calculateSimilarity = (segment: string, definition: string): number => {
     if (!segment || !definition) return 0;
     
     // 1. Exact match (High priority)
@@ -38,85 +54,321 @@ const calculateSimilarity = (segment: string, definition: string): number => {
     return (2.0 * intersectionCount) / (cleanSeg.length + cleanDef.length);
 };
 
+// 以这些功能词开头的短语不可拆分 ("in terms of" 不能写成 "in the terms of")
+const NON_SEPARABLE_HEADS = new Set(['a', 'an', 'the', 'in', 'on', 'at', 'of', 'by', 'for', 'with', 'as', 'to', 'from', 'into', 'out', 'up', 'so', 'and', 'or', 'not', 'no']);
+// 可拆分短语动词中间最多插入的词数 ("take the rising cost into account")
+const MAX_PHRASE_GAP = 3;
+
+/**
+ * 在译文词序列中查找短语：首词可以是任一变形 (heads)，其余词按顺序紧邻出现；
+ * 可拆分时首词后允许插入至多 MAX_PHRASE_GAP 个词 ("turn the lights off")。
+ */
+const containsPhrase = (tokens: string[], heads: Set<string>, rest: string[], separable: boolean): boolean => {
+    const maxGap = separable ? MAX_PHRASE_GAP : 0;
+    for (let i = 0; i < tokens.length; i++) {
+        if (!heads.has(tokens[i])) continue;
+        if (rest.length === 0) return true;
+        for (let gap = 0; gap <= maxGap; gap++) {
+            const from = i + 1 + gap;
+            if (from + rest.length > tokens.length) break;
+            if (rest.every((t, k) => tokens[from + k] === t)) return true;
+        }
+    }
+    return false;
+};
+
+// Suffix-stripped comparatives are only trusted for adjectives ("number" is not numb + er), verb forms never for nouns
+const isTrustedLemma = (c: LemmaCandidate, entry: WordEntry) => {
+    if (c.kind === 'verb' && isNounOnly(entry.partOfSpeech)) return false;
+    return c.kind !== 'comparative' || !!c.irregular || isAdjective(entry.partOfSpeech);
+};
+
+const entryFormsCache = new WeakMap<WordEntry, Set<string>>();
+
+// Stored inflections plus the ones generated for the entry's part of speech
+const getEntryForms = (entry: WordEntry): Set<string> => {
+    let forms = entryFormsCache.get(entry);
+    if (!forms) {
+        forms = new Set([...(entry.inflections || []), ...generateInflections(entry.text, entry.partOfSpeech)].map(f => f.toLowerCase()));
+        entryFormsCache.set(entry, forms);
+    }
+    return forms;
+};
+
+/**
+ * 单词 token 是否为词条的变形：必须是词条自己的变形 ("hated" 不是 hat 的变形)，
+ * 且能被规则拆解时要符合词性 ("caring" 不算名词 car)。规则拆不开的存储变形 ("criteria") 直接信任。
+ */
+const isInflectionOf = (token: string, entry: WordEntry): boolean => {
+    if (!getEntryForms(entry).has(token)) return false;
+    const base = entry.text.trim().toLowerCase();
+    const parsed = lemmatize(token).filter(c => c.kind !== 'base' && c.lemma === base);
+    return parsed.length === 0 || parsed.some(c => isTrustedLemma(c, entry));
+};
+
+/**
+ * 译文词形匹配器：按整词判断译文中是否出现了某个词条或其变形。
+ * "booking" 能匹配 book，"bookshelf" 不能；短语词条允许首词变形与可拆分的间隔。
+ */
+export const createTranslationMatcher = (translatedText: string) => {
+    const tokens = tokenizeEnglish(translatedText);
+    const tokenSet = new Set(tokens);
+
+    return (entry: WordEntry, matchInflections: boolean = true): boolean => {
+        const text = entry.text.trim().toLowerCase();
+
+        // Phrases: head word in any of its forms, then the remaining words in order
+        if (text.includes(' ')) {
+            const [head, ...rest] = tokenizeEnglish(text);
+            if (!head) return false;
+            const heads = new Set([head]);
+            if (matchInflections) {
+                getEntryForms(entry).forEach(f => {
+                    const formHead = tokenizeEnglish(f)[0];
+                    if (formHead) heads.add(formHead);
+                });
+            }
+            return containsPhrase(tokens, heads, rest, !NON_SEPARABLE_HEADS.has(head));
+        }
+
+        if (tokenSet.has(text)) return true;
+        if (!matchInflections) return false;
+        return Array.from(getEntryForms(entry)).some(f => tokenSet.has(f) && isInflectionOf(f, entry));
+    };
+};
+
+// 冲突裁决记录 (预览面板的匹配诊断用)
+export interface ConflictDecision<T extends MatchSpan = MatchSpan> {
+    span: T;
+    kept: boolean;
+    blockedBy?: T; // The accepted span it overlapped
+    reason?: 'longer' | 'category' | 'score' | 'earlier'; // Why blockedBy won
+}
+
+/**
+ * 区间冲突裁决：所有出现位置各自参与，重叠时依次比较
+ * 1. 区间更长 ("中华人民共和国" 胜过 "中华")
+ * 2. 分类优先级更高 (CATEGORY_MATCH_PRIORITY)
+ * 3. 释义得分更高
+ * 4. 位置更靠前
+ * 互不重叠的同词多次出现会全部保留。返回结果按 start 升序。
+ */
+export const resolveMatchConflicts = <T extends MatchSpan>(spans: T[], decisions?: ConflictDecision<T>[]): T[] => {
+    const priority = (span: MatchSpan) => CATEGORY_MATCH_PRIORITY[span.entry.category] || 0;
+    const ranked = [...spans].sort((a, b) =>
+        (b.end - b.start) - (a.end - a.start)
+        || priority(b) - priority(a)
+        || b.score - a.score
+        || a.start - b.start
+    );
+
+    const accepted: T[] = [];
+    ranked.forEach(span => {
+        if (span.end <= span.start) return;
+        const blocker = accepted.find(a => span.start < a.end && a.start < span.end);
+        if (!blocker) {
+            accepted.push(span);
+            decisions?.push({ span, kept: true });
+            return;
+        }
+        if (!decisions) return;
+        const reason: ConflictDecision['reason'] =
+            blocker.end - blocker.start > span.end - span.start ? 'longer'
+            : priority(blocker) > priority(span) ? 'category'
+            : blocker.score > span.score ? 'score'
+            : 'earlier';
+        decisions.push({ span, kept: false, blockedBy: blocker, reason });
+    });
+
+    return accepted.sort((a, b) => a.start - b.start);
+};
+
+// findFuzzyMatches 的过程记录：被译文校验淘汰的命中、候选区间与冲突裁决
+export interface FuzzyMatchTrace {
+    contextRejected: { entry: WordEntry, text: string, start: number }[]; // Definition found, but the word is missing from the translation
+    spans: MatchSpan[];
+    decisions: ConflictDecision[];
+}
+
 /**
  * 核心匹配逻辑：在中文源文本中寻找可以被替换的单词
  * 
- * 算法升级 v2:
- * 1. 上下文验证 (Context Verification): 只有当 translatedText (译文) 中包含了目标英文单词(或其变形)时，
- *    才会在 sourceText (原文) 中搜索对应的中文释义。这完美解决了 "China" -> "中" 匹配到 "在本文中" 的问题。
- * 2. 贪婪匹配: 优先匹配最长的中文释义 (例如优先匹配 "中华人民共和国" 而不是 "中华")。
+ * 算法升级 v4:
+ * 1. 多模式扫描: 所有中文释义预先建成 Aho–Corasick 自动机 (DefinitionIndex)，一句话只扫一遍。
+ *    传入词条数组时临时建一个索引 (预览等一次性场景)。
+ * 2. 上下文验证 (Context Verification): 原文命中的词条，只有当 translatedText (译文) 中包含了该英文单词(或其变形)时才保留。
+ *    这完美解决了 "China" -> "中" 匹配到 "在本文中" 的问题。
+ * 3. 义项打分: 结合英文句子、中文上下文、词性与在线释义 (richData，按词条 text 索引) 给每处命中打分，
+ *    同一处命中多个同形词条时由分数选出合适的义项。
+ * 4. 每一处出现都带位置返回，重叠部分交给 resolveMatchConflicts 按区间裁决。
  */
 export const findFuzzyMatches = (
     sourceText: string, 
-    candidates: WordEntry[], 
-    translatedText: string = ""
-): { text: string, entry: WordEntry }[] => {
+    candidates: WordEntry[] | DefinitionIndex, 
+    translatedText: string = "",
+    matchInflections: boolean = true,
+    richData: Record<string, RichDictionaryResult | null> = {},
+    trace?: FuzzyMatchTrace
+): MatchSpan[] => {
     
-    const matches: { text: string, entry: WordEntry, index: number }[] = [];
-    const normalizedTrans = normalizeEnglishText(translatedText);
-
-    // 1. 筛选候选词 (Filter Candidates)
-    // 只有当 API 返回的译文中确实出现了这个英文单词，我们才去原文里找它的中文对应词。
-    const validCandidates = candidates.filter(entry => {
-        // 检查单词本身
-        if (normalizedTrans.includes(entry.text.toLowerCase())) return true;
-        
-        // 检查变形 (Inflections)
-        if (entry.inflections && entry.inflections.length > 0) {
-            return entry.inflections.some(inf => normalizedTrans.includes(inf.toLowerCase()));
-        }
-        
-        // 如果没有译文（预览模式），则不做严格校验，允许所有匹配
-        if (!translatedText) return true;
+    let index: DefinitionIndex;
+    if (Array.isArray(candidates)) {
+        index = createDefinitionIndex();
+        index.update(candidates);
+    } else {
+        index = candidates;
+    }
 
-        return false;
-    });
+    // 如果没有译文（预览模式），则不做严格校验，允许所有匹配
+    const appearsInTranslation = createTranslationMatcher(translatedText);
+    const verified = new Map<string, boolean>();
+    const isValid = (entry: WordEntry) => {
+        if (!translatedText) return true;
+        if (!verified.has(entry.id)) verified.set(entry.id, appearsInTranslation(entry, matchInflections));
+        return verified.get(entry.id)!;
+    };
 
-    // 2. 在原文中搜索匹配 (Search in Source)
-    // 我们不再依赖分词器的切分结果完全相等，而是搜索字符串。
-    // 因为 "中俄" 可能被分词为一个词，但我们需要替换里面的 "中"。
-    
-    validCandidates.forEach(entry => {
-        // 获取所有可能的中文释义 (从 translation 字段解析，假设用逗号或分号分隔)
-        // 用户输入的 translation 可能是 "中国; 中; 中华人民共和国"
-        const definitions = entry.translation
-            ?.split(/[,;，；\s]+/) // 拆分
-            .map(d => d.trim())
-            .filter(d => d.length > 0) || [];
-
-        definitions.forEach(def => {
-            let startIndex = 0;
-            let foundIndex = sourceText.indexOf(def, startIndex);
-            
-            while (foundIndex !== -1) {
-                matches.push({
-                    text: def,
-                    entry: entry,
-                    index: foundIndex
-                });
-                startIndex = foundIndex + 1; // 继续向后找
-                foundIndex = sourceText.indexOf(def, startIndex);
+    const matches: MatchSpan[] = [];
+    index.search(sourceText).forEach(hit => {
+        hit.entries.forEach(({ entry, defIndex }) => {
+            if (!isValid(entry)) {
+                trace?.contextRejected.push({ entry, text: hit.text, start: hit.start });
+                return;
             }
+            const { score, sense } = scoreSense(entry, defIndex, {
+                source: sourceText,
+                start: hit.start,
+                end: hit.end,
+                translation: translatedText,
+                richData: richData[entry.text] || undefined
+            });
+            matches.push({ start: hit.start, end: hit.end, text: hit.text, entry, score, sense });
         });
     });
 
-    // 3. 冲突处理 (Resolve Conflicts)
-    // 按在原文中的位置排序
-    matches.sort((a, b) => a.index - b.index);
+    trace?.spans.push(...matches);
+    return resolveMatchConflicts(matches, trace?.decisions);
+};
 
-    // 去重逻辑：
-    // 过滤掉被“更长匹配”包含的短匹配
-    
-    const uniqueMatches = new Map<string, WordEntry>();
-    matches.forEach(m => {
-        if (!uniqueMatches.has(m.text)) {
-            uniqueMatches.set(m.text, m.entry);
-        } else {
-            // 如果已经有了，保留第一个
+interface EnglishFormIndex {
+    byText: Map<string, WordEntry[]>; // Lowercased entry text
+    byForm: Map<string, WordEntry[]>; // Stored inflections
+    phrasesByHead: Map<string, { entry: WordEntry, rest: string[], inflected: boolean }[]>;
+}
+
+const englishIndexCache = new WeakMap<WordEntry[], EnglishFormIndex>();
+
+const push = <T>(map: Map<string, T[]>, key: string, value: T) => {
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(value);
+};
+
+const getEnglishFormIndex = (entries: WordEntry[]): EnglishFormIndex => {
+    let index = englishIndexCache.get(entries);
+    if (index) return index;
+    index = { byText: new Map(), byForm: new Map(), phrasesByHead: new Map() };
+    entries.forEach(entry => {
+        if (!entry.translation) return; // Nothing to gloss with
+        const [head, ...rest] = tokenizeEnglish(entry.text);
+        if (!head) return;
+        if (rest.length === 0) {
+            push(index!.byText, head, entry);
+            (entry.inflections || []).forEach(f => push(index!.byForm, f.toLowerCase(), entry));
+            return;
         }
+        push(index!.phrasesByHead, head, { entry, rest, inflected: false });
+        const heads = new Set(Array.from(getEntryForms(entry)).map(f => tokenizeEnglish(f)[0]));
+        heads.forEach(h => { if (h && h !== head) push(index!.phrasesByHead, h, { entry, rest, inflected: true }); });
     });
+    englishIndexCache.set(entries, index);
+    return index;
+};
 
-    return Array.from(uniqueMatches.entries()).map(([text, entry]) => ({ text, entry }));
+/**
+ * 反向模式 (英文页面)：不调用翻译，直接在英文原文里按整词找单词本词条 (含变形与连续短语)，
+ * 返回的 sense.meaning 是用来注音的中文释义 (第一个义项)。
+ */
+export const findEnglishGlosses = (
+    text: string,
+    entries: WordEntry[],
+    matchInflections: boolean = true
+): MatchSpan[] => {
+    const index = getEnglishFormIndex(entries);
+    const tokens = Array.from(text.matchAll(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g)).map(m => ({
+        lower: m[0].toLowerCase(),
+        start: m.index!,
+        end: m.index! + m[0].length
+    }));
+
+    const spans: MatchSpan[] = [];
+    const addSpan = (entry: WordEntry, start: number, end: number) => {
+        spans.push({
+            start,
+            end,
+            text: text.slice(start, end),
+            entry,
+            score: 1,
+            sense: {
+                partOfSpeech: normalizePartOfSpeech(entry.partOfSpeech),
+                meaning: splitDefinitions(entry.translation)[0] || entry.translation || ''
+            }
+        });
+    };
+
+    tokens.forEach((token, i) => {
+        const found = new Set<WordEntry>(index.byText.get(token.lower) || []);
+        if (matchInflections) {
+            (index.byForm.get(token.lower) || []).filter(e => isInflectionOf(token.lower, e)).forEach(e => found.add(e));
+            lemmatize(token.lower).forEach(c => {
+                if (c.kind === 'base') return;
+                (index.byText.get(c.lemma) || []).filter(e => isInflectionOf(token.lower, e)).forEach(e => found.add(e));
+            });
+        }
+        found.forEach(entry => addSpan(entry, token.start, token.end));
+
+        // Phrases: contiguous words, not across punctuation
+        (index.phrasesByHead.get(token.lower) || []).forEach(({ entry, rest, inflected }) => {
+            if (inflected && !matchInflections) return;
+            const last = i + rest.length;
+            if (last >= tokens.length) return;
+            const fits = rest.every((word, k) => {
+                const prev = tokens[i + k];
+                const cur = tokens[i + k + 1];
+                return cur.lower === word && /^\s+$/.test(text.slice(prev.end, cur.start));
+            });
+            if (fits) addSpan(entry, token.start, tokens[last].end);
+        });
+    });
+
+    return resolveMatchConflicts(spans);
+};
+
+// 激进模式的相似度阈值 (Dice 系数)
+export const AGGRESSIVE_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * 用 Intl.Segmenter 分词后拼出的候选片段 (单词、二元、三元组合)，供相似度比对。
+ * 例如 "截止" "日期" -> "截止", "日期", "截止日期"
+ */
+export const buildSegmentCandidates = (sourceText: string): string[] => {
+    // Use Intl.Segmenter for better word boundaries
+    const segmenter = new (Intl as any).Segmenter('zh-CN', { granularity: 'word' });
+    const segments = Array.from((segmenter as any).segment(sourceText)).map((s: any) => s.segment as string);
+
+    const candidates: string[] = [];
+    // Single segments
+    candidates.push(...segments.filter(s => /[\u4e00-\u9fa5]/.test(s)));
+    // Double segments (bi-grams)
+    for(let i=0; i<segments.length-1; i++) {
+        candidates.push(segments[i] + segments[i+1]);
+    }
+    // Triple segments
+    for(let i=0; i<segments.length-2; i++) {
+        candidates.push(segments[i] + segments[i+1] + segments[i+2]);
+    }
+
+    // Deduplicate candidates
+    return Array.from(new Set(candidates));
 };
 
 /**
@@ -127,8 +379,9 @@ export const findFuzzyMatches = (
 export const findAggressiveMatches = (
     sourceText: string,
     missedEntry: WordEntry,
-    richData: RichDictionaryResult
-): { text: string, entry: WordEntry }[] => {
+    richData: RichDictionaryResult,
+    onAttempt?: (segment: string, definition: string, score: number) => void // Every non-zero comparison, for tracing
+): { text: string, entry: WordEntry, score: number }[] => {
     
     // 1. Collect all possible Chinese definitions from rich data
     const allDefinitions = new Set<string>();
@@ -156,41 +409,17 @@ export const findAggressiveMatches = (
     if (definitions.length === 0) return [];
 
     // 2. Segment source text for sliding window check
-    // Use Intl.Segmenter for better word boundaries
-    const segmenter = new (Intl as any).Segmenter('zh-CN', { granularity: 'word' });
-    const segments = Array.from((segmenter as any).segment(sourceText)).map((s: any) => s.segment as string);
-    
-    // Reconstruct possible phrases (n-grams) from segments to match against definitions
-    // Example: "截" "止" "日" "期" -> check "截止", "截止日", "截止日期"
-    // Since segments might be words like "截止" "日期", we also check combinations.
-    
-    const candidates: string[] = [];
-    // Single segments
-    candidates.push(...segments.filter(s => /[\u4e00-\u9fa5]/.test(s)));
-    
-    // Double segments (bi-grams)
-    for(let i=0; i<segments.length-1; i++) {
-        candidates.push(segments[i] + segments[i+1]);
-    }
-    // Triple segments
-    for(let i=0; i<segments.length-2; i++) {
-        candidates.push(segments[i] + segments[i+1] + segments[i+2]);
-    }
-
-    // Deduplicate candidates
-    const uniqueCandidates = Array.from(new Set(candidates));
+    const uniqueCandidates = buildSegmentCandidates(sourceText);
 
     let bestMatchText = "";
     let bestScore = 0;
     
     // 3. Similarity Check
-    // Threshold 0.6 (60%) 
-    const THRESHOLD = 0.6;
-
     for (const cand of uniqueCandidates) {
         for (const def of definitions) {
             const score = calculateSimilarity(cand, def);
-            if (score >= THRESHOLD) {
+            if (score > 0) onAttempt?.(cand, def, score);
+            if (score >= AGGRESSIVE_SIMILARITY_THRESHOLD) {
                 // Prefer longer match, then higher score
                 if (cand.length > bestMatchText.length || (cand.length === bestMatchText.length && score > bestScore)) {
                     bestScore = score;
@@ -200,8 +429,8 @@ export const findAggressiveMatches = (
         }
     }
 
-    if (bestMatchText && bestScore >= THRESHOLD) {
-        return [{ text: bestMatchText, entry: missedEntry }];
+    if (bestMatchText && bestScore >= AGGRESSIVE_SIMILARITY_THRESHOLD) {
+        return [{ text: bestMatchText, entry: missedEntry, score: bestScore }];
     }
 
     return [];
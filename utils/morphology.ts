@@ -0,0 +1,267 @@
+/**
+ * 英文词形还原 / 变形生成 (Lemmatizer & Inflector)
+ * 规则 + 例外表，不依赖词典数据：既给没有 inflections 的词条生成变形，
+ * 也把译文中的词还原为原形，按整词匹配 (booking -> book，bookshelf 不算)。
+ */
+
+// base:past:pastParticiple, "|" separates accepted variants, participle defaults to past
+const IRREGULAR_VERB_TABLE = `
+arise:arose:arisen awake:awoke:awoken be:was|were:been bear:bore:born|borne beat:beat:beaten
+become:became:become begin:began:begun bend:bent bet:bet bind:bound bite:bit:bitten bleed:bled
+blow:blew:blown break:broke:broken breed:bred bring:brought build:built burn:burnt|burned buy:bought
+catch:caught choose:chose:chosen come:came:come cost:cost creep:crept cut:cut deal:dealt dig:dug
+do:did:done draw:drew:drawn dream:dreamt|dreamed drink:drank:drunk drive:drove:driven eat:ate:eaten
+fall:fell:fallen feed:fed feel:felt fight:fought find:found flee:fled fly:flew:flown forbid:forbade:forbidden
+forget:forgot:forgotten forgive:forgave:forgiven freeze:froze:frozen get:got:got|gotten give:gave:given
+go:went:gone grind:ground grow:grew:grown hang:hung|hanged have:had hear:heard hide:hid:hidden hit:hit
+hold:held hurt:hurt keep:kept kneel:knelt know:knew:known lay:laid lead:led lean:leant|leaned
+leap:leapt|leaped learn:learnt|learned leave:left lend:lent let:let lie:lay|lied:lain|lied light:lit|lighted
+lose:lost make:made mean:meant meet:met pay:paid put:put quit:quit read:read ride:rode:ridden
+ring:rang:rung rise:rose:risen run:ran:run say:said see:saw:seen seek:sought sell:sold send:sent set:set
+shake:shook:shaken shine:shone shoot:shot show:showed:shown shrink:shrank:shrunk shut:shut sing:sang:sung
+sink:sank:sunk sit:sat sleep:slept slide:slid speak:spoke:spoken speed:sped spell:spelt|spelled
+spend:spent spin:spun split:split spread:spread spring:sprang:sprung stand:stood steal:stole:stolen
+stick:stuck sting:stung strike:struck swear:swore:sworn sweep:swept swim:swam:swum swing:swung
+take:took:taken teach:taught tear:tore:torn tell:told think:thought throw:threw:thrown
+understand:understood wake:woke:woken wear:wore:worn weave:wove:woven weep:wept win:won wind:wound
+withdraw:withdrew:withdrawn write:wrote:written
+`;
+
+// Present-tense forms that don't follow the -s rule
+const IRREGULAR_PRESENT: Record<string, string[]> = {
+    be: ['am', 'is', 'are'], have: ['has'], do: ['does'], go: ['goes'],
+};
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+    man: 'men', woman: 'women', child: 'children', person: 'people', foot: 'feet', tooth: 'teeth',
+    mouse: 'mice', goose: 'geese', ox: 'oxen', life: 'lives', wife: 'wives', knife: 'knives',
+    leaf: 'leaves', half: 'halves', wolf: 'wolves', shelf: 'shelves', thief: 'thieves', loaf: 'loaves',
+    analysis: 'analyses', crisis: 'crises', thesis: 'theses', phenomenon: 'phenomena', criterion: 'criteria',
+    datum: 'data', medium: 'media', cactus: 'cacti', fungus: 'fungi', nucleus: 'nuclei', stimulus: 'stimuli',
+    index: 'indices', appendix: 'appendices', potato: 'potatoes', tomato: 'tomatoes', hero: 'heroes', echo: 'echoes',
+    sheep: 'sheep', fish: 'fish', deer: 'deer', series: 'series', species: 'species',
+};
+
+// base -> [comparative, superlative] with "|" variants
+const IRREGULAR_COMPARATIVES: Record<string, [string, string]> = {
+    good: ['better', 'best'], well: ['better', 'best'], bad: ['worse', 'worst'], ill: ['worse', 'worst'],
+    far: ['farther|further', 'farthest|furthest'], little: ['less', 'least'], many: ['more', 'most'],
+    much: ['more', 'most'], old: ['older|elder', 'oldest|eldest'],
+};
+
+// Stressed final syllable: these double the consonant although they have two syllables
+const DOUBLING_EXCEPTIONS = new Set([
+    'prefer', 'refer', 'occur', 'admit', 'commit', 'permit', 'omit', 'regret', 'control', 'patrol',
+    'equip', 'upset', 'submit', 'transfer', 'compel', 'expel', 'propel', 'rebel', 'begin', 'forbid',
+]);
+
+// Words that only look inflected; never strip them
+const NOT_INFLECTED = new Set([
+    'news', 'series', 'species', 'means', 'always', 'perhaps', 'its', 'this', 'his', 'is', 'was', 'has', 'does',
+    'thus', 'plus', 'bus', 'gas', 'yes', 'less', 'unless', 'during', 'evening', 'morning', 'ceiling', 'nothing',
+    'something', 'anything', 'everything', 'thing', 'king', 'ring', 'spring', 'string', 'wing', 'sing', 'bring',
+    'number', 'corner', 'need', 'seed', 'feed', 'speed', 'bed', 'red', 'hundred', 'indeed', 'sacred', 'naked', 'wicked',
+]);
+
+export type InflectionKind = 'plural' | 'verb' | 'comparative';
+
+interface IrregularForm { lemma: string; kind: InflectionKind; irregular: true }
+
+const { IRREGULAR_VERBS, IRREGULAR_LEMMAS } = (() => {
+    const verbs: Record<string, string[]> = {};
+    const lemmas: Record<string, IrregularForm[]> = {};
+    const addLemma = (form: string, lemma: string, kind: InflectionKind) => {
+        (lemmas[form] = lemmas[form] || []).push({ lemma, kind, irregular: true });
+    };
+
+    IRREGULAR_VERB_TABLE.trim().split(/\s+/).forEach(item => {
+        const [base, past, participle = past] = item.split(':');
+        const forms = [...new Set([...past.split('|'), ...participle.split('|')])];
+        verbs[base] = forms;
+        forms.forEach(f => addLemma(f, base, 'verb'));
+    });
+    Object.entries(IRREGULAR_PRESENT).forEach(([base, forms]) => forms.forEach(f => addLemma(f, base, 'verb')));
+    Object.entries(IRREGULAR_PLURALS).forEach(([base, plural]) => addLemma(plural, base, 'plural'));
+    Object.entries(IRREGULAR_COMPARATIVES).forEach(([base, pair]) => {
+        pair.flatMap(p => p.split('|')).forEach(f => addLemma(f, base, 'comparative'));
+    });
+    return { IRREGULAR_VERBS: verbs, IRREGULAR_LEMMAS: lemmas };
+})();
+
+const VOWELS = 'aeiou';
+const isVowel = (ch: string) => VOWELS.includes(ch);
+
+const syllableCount = (word: string) => (word.match(/[aeiouy]+/g) || []).length;
+
+/**
+ * stop -> stopp(ed), plan -> plann(ing); visit / open stay single (unstressed final syllable).
+ */
+const shouldDouble = (word: string): boolean => {
+    if (word.length < 3) return false;
+    const [c1, v, c2] = word.slice(-3);
+    const isCvc = !isVowel(c1) && isVowel(v) && !isVowel(c2) && !'wxy'.includes(c2);
+    if (!isCvc) return false;
+    return syllableCount(word) === 1 || DOUBLING_EXCEPTIONS.has(word);
+};
+
+const endsWithConsonantY = (word: string) => word.length > 1 && word.endsWith('y') && !isVowel(word[word.length - 2]);
+
+const pluralize = (word: string): string[] => {
+    if (IRREGULAR_PLURALS[word]) return [IRREGULAR_PLURALS[word]];
+    if (/(s|x|z|ch|sh)$/.test(word)) return [word + 'es'];
+    if (endsWithConsonantY(word)) return [word.slice(0, -1) + 'ies'];
+    // go -> goes, but photo -> photos: accept both
+    if (/[^aeiou]o$/.test(word)) return [word + 's', word + 'es'];
+    return [word + 's'];
+};
+
+// Third person singular: go -> goes, fly -> flies; verbs never take the bare "-os" plural
+const thirdPersonForms = (word: string): string[] => {
+    if (IRREGULAR_PRESENT[word]) return IRREGULAR_PRESENT[word];
+    if (/(s|x|z|ch|sh|o)$/.test(word)) return [word + 'es'];
+    if (endsWithConsonantY(word)) return [word.slice(0, -1) + 'ies'];
+    return [word + 's'];
+};
+
+const pastForms = (word: string): string[] => {
+    if (IRREGULAR_VERBS[word]) return IRREGULAR_VERBS[word];
+    if (word.endsWith('e')) return [word + 'd'];
+    if (endsWithConsonantY(word)) return [word.slice(0, -1) + 'ied'];
+    if (shouldDouble(word)) return [word + word.slice(-1) + 'ed'];
+    return [word + 'ed'];
+};
+
+const ingForm = (word: string): string => {
+    if (word.endsWith('ie')) return word.slice(0, -2) + 'ying';
+    if (word.endsWith('e') && !/(ee|ye|oe)$/.test(word) && word !== 'be') return word.slice(0, -1) + 'ing';
+    if (shouldDouble(word)) return word + word.slice(-1) + 'ing';
+    return word + 'ing';
+};
+
+const comparativeForms = (word: string): string[] => {
+    if (IRREGULAR_COMPARATIVES[word]) return IRREGULAR_COMPARATIVES[word].flatMap(p => p.split('|'));
+    // Long adjectives use "more / most"
+    if (syllableCount(word) > 2) return [];
+    if (word.endsWith('e')) return [word + 'r', word + 'st'];
+    if (endsWithConsonantY(word)) return [word.slice(0, -1) + 'ier', word.slice(0, -1) + 'iest'];
+    if (shouldDouble(word)) return [word + word.slice(-1) + 'er', word + word.slice(-1) + 'est'];
+    return [word + 'er', word + 'est'];
+};
+
+const POS_ALIASES: Record<string, string> = {
+    noun: 'n', n: 'n',
+    verb: 'v', v: 'v', vt: 'v', vi: 'v',
+    adjective: 'adj', adj: 'adj', a: 'adj',
+    adverb: 'adv', adv: 'adv', ad: 'adv',
+    preposition: 'prep', prep: 'prep',
+    conjunction: 'conj', conj: 'conj',
+    pronoun: 'pron', pron: 'pron',
+    interjection: 'int', int: 'int', interj: 'int',
+};
+
+/**
+ * "n.", "N-COUNT", "Noun", "vt." -> "n" / "v" / "adj" ...
+ */
+export const normalizePartOfSpeech = (raw?: string): string => {
+    const head = (raw || '').trim().toLowerCase().split(/[^a-z]/)[0];
+    return POS_ALIASES[head] || head;
+};
+
+export const isAdjective = (partOfSpeech?: string) => !!partOfSpeech && /adj|^a\.?$/i.test(partOfSpeech.trim());
+
+const isNounPos = (pos: string) => /\bn\b|noun/i.test(pos);
+const isVerbPos = (pos: string) => /\bv|verb/i.test(pos);
+
+// Tagged as a noun and not also as a verb ("n." yes, "n. & v." no)
+export const isNounOnly = (partOfSpeech?: string) => !!partOfSpeech && isNounPos(partOfSpeech) && !isVerbPos(partOfSpeech);
+
+/**
+ * Generates inflected forms of a word or phrase (only the first word of a phrase
+ * is inflected: "look up" -> "looked up"). Without a part of speech, noun and verb
+ * forms are generated; comparatives only for adjectives.
+ */
+export const generateInflections = (text: string, partOfSpeech?: string): string[] => {
+    const lower = text.trim().toLowerCase();
+    if (!/^[a-z][a-z'-]*( [a-z'-]+)*$/.test(lower)) return [];
+    const [head, ...rest] = lower.split(' ');
+    const tail = rest.length > 0 ? ' ' + rest.join(' ') : '';
+
+    const pos = (partOfSpeech || '').toLowerCase();
+    const forms: string[] = [];
+    if (isAdjective(pos)) {
+        forms.push(...comparativeForms(head));
+    } else {
+        const isNoun = !pos || isNounPos(pos);
+        const isVerb = !pos || isVerbPos(pos);
+        if (isNoun) forms.push(...pluralize(head));
+        if (isVerb) forms.push(...thirdPersonForms(head), ...pastForms(head), ingForm(head));
+    }
+    return [...new Set(forms)].filter(f => f !== head).map(f => f + tail);
+};
+
+export interface LemmaCandidate {
+    lemma: string;
+    kind: InflectionKind | 'base';
+    irregular?: boolean; // From the exception tables rather than a suffix rule
+}
+
+/**
+ * Maps a single lowercase token to every lemma it could be an inflection of
+ * (including itself). Over-generates ("hated" -> hat): callers only accept a
+ * candidate when the token is one of the entry's own forms.
+ */
+export const lemmatize = (token: string): LemmaCandidate[] => {
+    const word = token.toLowerCase().replace(/'s$/, '');
+    const out: LemmaCandidate[] = [{ lemma: word, kind: 'base' }];
+    // Exception tables first: "is" / "was" are real forms of "be" even though no suffix rule applies
+    IRREGULAR_LEMMAS[word]?.forEach(f => out.push(f));
+    if (NOT_INFLECTED.has(word)) return out;
+
+    const add = (lemma: string, kind: InflectionKind) => {
+        // A stem needs at least two letters and a vowel to be a plausible word
+        if (lemma.length >= 2 && /[aeiouy]/.test(lemma)) out.push({ lemma, kind });
+    };
+    // "stopp" -> "stop", only for stems that would have doubled
+    const undouble = (stem: string, kind: InflectionKind) => {
+        if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2] && shouldDouble(stem.slice(0, -1))) {
+            add(stem.slice(0, -1), kind);
+        }
+    };
+
+    if (word.endsWith('ies') && word.length > 4) add(word.slice(0, -3) + 'y', 'plural');
+    else if (/(s|x|z|ch|sh|o)es$/.test(word)) add(word.slice(0, -2), 'plural');
+    if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) add(word.slice(0, -1), 'plural');
+
+    if (word.endsWith('ied') && word.length > 4) add(word.slice(0, -3) + 'y', 'verb');
+    else if (word.endsWith('ed') && word.length > 3) {
+        const stem = word.slice(0, -2);
+        add(stem, 'verb');
+        add(stem + 'e', 'verb');
+        undouble(stem, 'verb');
+    }
+
+    if (word.endsWith('ying') && word.length > 5) add(word.slice(0, -4) + 'ie', 'verb');
+    if (word.endsWith('ing') && word.length > 4) {
+        const stem = word.slice(0, -3);
+        add(stem, 'verb');
+        add(stem + 'e', 'verb');
+        undouble(stem, 'verb');
+    }
+
+    if (/ie(r|st)$/.test(word)) add(word.replace(/ie(r|st)$/, 'y'), 'comparative');
+    else if (/(er|est)$/.test(word)) {
+        const stem = word.replace(/(er|est)$/, '');
+        add(stem, 'comparative');
+        add(stem + 'e', 'comparative');
+        undouble(stem, 'comparative');
+    }
+
+    return out;
+};
+
+/**
+ * Lowercase word tokens of an English text (hyphenated words and contractions kept whole).
+ */
+export const tokenizeEnglish = (text: string): string[] => {
+    return text.toLowerCase().match(/[a-z]+(?:['’-][a-z]+)*/g) || [];
+};
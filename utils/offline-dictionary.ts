@@ -0,0 +1,223 @@
+import { OfflineDictionaryInfo } from "../types";
+import { offlineDictionaryInfoStorage } from "./storage";
+
+const DB_NAME = 'context-lingo-offline-dict';
+const DB_VERSION = 1;
+// Two stores: an import fills the inactive one and only replaces the current pack once it completed
+const STORES = ['words-a', 'words-b'];
+
+// Rows per IndexedDB transaction while importing (full ECDICT is ~770k rows)
+const WRITE_BATCH = 2000;
+
+/**
+ * One ECDICT row. Multi-line fields keep ECDICT's literal "\n" separators.
+ */
+export interface OfflineDictionaryRecord {
+    word: string; // Lowercased, indexed for case-insensitive lookups
+    text: string; // Original spelling and key, so "US" and "us" are separate rows
+    phonetic: string;
+    definition: string; // English, one "pos. def" per line
+    translation: string; // Chinese, one "pos. 释义" per line
+    tag: string; // Space separated: zk gk cet4 cet6 ky toefl ielts gre
+    collins: number;
+    frq: number; // COCA frequency rank, 0 = unknown
+    exchange: string; // "p:did/d:done/i:doing/3:does"
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                STORES.forEach(name => {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath: 'text' }).createIndex('word', 'word');
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const getActiveStore = (info: OfflineDictionaryInfo) => info.store || STORES[0];
+
+const clearStore = async (name: string) => {
+    const db = await openDb();
+    await promisify(db.transaction(name, 'readwrite').objectStore(name).clear());
+};
+
+const writeBatch = async (storeName: string, records: OfflineDictionaryRecord[]) => {
+    const db = await openDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    records.forEach(r => store.put(r));
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/**
+ * Incremental RFC 4180 parser: feed it text chunks, it emits complete rows.
+ * Quoted fields may span chunk boundaries and contain commas/newlines.
+ */
+const createCsvParser = (onRow: (row: string[]) => void) => {
+    let field = '';
+    let row: string[] = [];
+    let inQuotes = false;
+    let quotePending = false; // Saw a quote inside a quoted field; next char decides
+
+    const endRow = () => {
+        row.push(field);
+        field = '';
+        if (row.length > 1 || row[0] !== '') onRow(row);
+        row = [];
+    };
+
+    const feed = (chunk: string) => {
+        for (let i = 0; i < chunk.length; i++) {
+            const ch = chunk[i];
+            if (quotePending) {
+                quotePending = false;
+                if (ch === '"') { field += '"'; continue; }
+                inQuotes = false;
+            }
+            if (inQuotes) {
+                if (ch === '"') quotePending = true;
+                else field += ch;
+            } else if (ch === '"') {
+                inQuotes = true;
+            } else if (ch === ',') {
+                row.push(field);
+                field = '';
+            } else if (ch === '\n') {
+                endRow();
+            } else if (ch !== '\r') {
+                field += ch;
+            }
+        }
+    };
+
+    const end = () => {
+        if (field !== '' || row.length > 0) endRow();
+    };
+
+    return { feed, end };
+};
+
+const toRecord = (row: string[], columns: Record<string, number>): OfflineDictionaryRecord | null => {
+    const get = (name: string) => (columns[name] !== undefined ? row[columns[name]] || '' : '').trim();
+    const text = get('word');
+    const translation = get('translation');
+    if (!text || !translation) return null;
+    return {
+        word: text.toLowerCase(),
+        text,
+        phonetic: get('phonetic'),
+        definition: get('definition'),
+        translation,
+        tag: get('tag'),
+        collins: parseInt(get('collins')) || 0,
+        frq: parseInt(get('frq')) || 0,
+        exchange: get('exchange'),
+    };
+};
+
+/**
+ * Streams an ECDICT-style CSV (header row with at least `word` and `translation`)
+ * into the inactive store and switches to it once the whole file went in, so a
+ * bad file or a failed import leaves the previously imported pack untouched.
+ */
+export const importEcdictCsv = async (file: File, onProgress?: (ratio: number) => void): Promise<OfflineDictionaryInfo> => {
+    const active = getActiveStore(await offlineDictionaryInfoStorage.getValue());
+    const staging = STORES.find(name => name !== active)!;
+    await clearStore(staging);
+
+    try {
+        const entries = await importRows(file, staging, onProgress);
+        const info: OfflineDictionaryInfo = { entries, importedAt: Date.now(), fileName: file.name, store: staging };
+        await offlineDictionaryInfoStorage.setValue(info);
+        await clearStore(active);
+        return info;
+    } catch (err) {
+        await clearStore(staging).catch(() => {});
+        throw err;
+    }
+};
+
+const importRows = async (file: File, storeName: string, onProgress?: (ratio: number) => void): Promise<number> => {
+    let columns: Record<string, number> | null = null;
+    const pending: OfflineDictionaryRecord[] = [];
+
+    const parser = createCsvParser(row => {
+        if (!columns) {
+            columns = Object.fromEntries(row.map((name, idx) => [name.trim().toLowerCase(), idx]));
+            if (columns.word === undefined || columns.translation === undefined) {
+                throw new Error("不是 ECDICT 格式：缺少 word / translation 列");
+            }
+            return;
+        }
+        const record = toRecord(row, columns);
+        if (record) pending.push(record);
+    });
+
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder('utf-8');
+    let bytesRead = 0;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytesRead += value.byteLength;
+        parser.feed(decoder.decode(value, { stream: true }));
+
+        while (pending.length >= WRITE_BATCH) {
+            await writeBatch(storeName, pending.splice(0, WRITE_BATCH));
+        }
+        onProgress?.(bytesRead / file.size);
+    }
+    parser.feed(decoder.decode());
+    parser.end();
+    if (!columns) throw new Error("文件为空");
+    if (pending.length > 0) await writeBatch(storeName, pending);
+
+    const db = await openDb();
+    return promisify(db.transaction(storeName).objectStore(storeName).count());
+};
+
+/**
+ * Exact spelling first ("US" vs "us"), then any case variant, preferring the
+ * all-lowercase headword (e.g. "May" at the start of a sentence finds "may").
+ */
+export const lookupOfflineWord = async (word: string): Promise<OfflineDictionaryRecord | null> => {
+    const text = word.trim();
+    const storeName = getActiveStore(await offlineDictionaryInfoStorage.getValue());
+    const db = await openDb();
+    const store = db.transaction(storeName).objectStore(storeName);
+
+    const exact = await promisify(store.get(text)) as OfflineDictionaryRecord | undefined;
+    if (exact) return exact;
+    const variants = await promisify(store.index('word').getAll(text.toLowerCase())) as OfflineDictionaryRecord[];
+    return variants.find(r => r.text === r.word) || variants[0] || null;
+};
+
+export const clearOfflineDictionary = async () => {
+    await Promise.all(STORES.map(clearStore));
+    await offlineDictionaryInfoStorage.setValue({ entries: 0, importedAt: 0, fileName: '' });
+};
@@ -0,0 +1,176 @@
+import { ChosenSense } from "./sense-scorer";
+
+/**
+ * One text-node split done by the content script: `removed` was taken out of
+ * `parent` and `inserted` (leading text, the word span, trailing text) put in
+ * its place. Keeping both sides lets the page be restored node for node.
+ */
+export interface ReplacementRecord {
+    parent: Node;
+    removed: Text;
+    removedText?: string; // Value of `removed` at split time; set by commit()
+    inserted: Node[]; // Document order
+    span: HTMLElement;
+    entryId: string;
+    original: string; // Page text the span stands for
+    mode: 'translate' | 'gloss';
+    sense?: ChosenSense;
+    placeholder?: Text; // Plain original text standing in for the span while the word is withdrawn
+}
+
+/**
+ * 替换日志：记录每一次 DOM 改写，支持整页还原原文 / 重新应用，以及样式变化时原地重绘。
+ *
+ * 还原按记录的逆序进行，同一文本节点上的多次拆分因此能逐层退回到最初的节点；
+ * 页面自己改动过的位置 (节点已不在原处) 直接丢弃对应记录，不去猜测。
+ *
+ * 记录同时按词条 id 建索引：单个词被撤下时只把它的 span 换成原文文本节点
+ * (placeholder)，拆分链保持不变，整页还原与重新应用照常工作。
+ */
+export const createReplacementJournal = () => {
+    let records: ReplacementRecord[] = [];
+    let applied = true;
+    const byEntry = new Map<string, Set<ReplacementRecord>>();
+    const bySpan = new WeakMap<HTMLElement, ReplacementRecord>();
+    const listeners = new Set<(applied: boolean) => void>();
+
+    const index = (r: ReplacementRecord) => {
+        if (!byEntry.has(r.entryId)) byEntry.set(r.entryId, new Set());
+        byEntry.get(r.entryId)!.add(r);
+        bySpan.set(r.span, r);
+    };
+
+    const forget = (r: ReplacementRecord) => {
+        const set = byEntry.get(r.entryId);
+        set?.delete(r);
+        if (set?.size === 0) byEntry.delete(r.entryId);
+    };
+
+    const applyRecord = (r: ReplacementRecord): boolean => {
+        if (r.removed.parentNode !== r.parent) return false;
+        r.inserted.forEach(n => r.parent.insertBefore(n, r.removed));
+        r.parent.removeChild(r.removed);
+        return true;
+    };
+
+    const revertRecord = (r: ReplacementRecord): boolean => {
+        if (r.inserted.some(n => n.parentNode !== r.parent)) return false;
+        r.parent.insertBefore(r.removed, r.inserted[0]);
+        r.inserted.forEach(n => r.parent.removeChild(n));
+        return true;
+    };
+
+    // Swaps one node of the record's inserted run for another, on the page too when applied
+    const swapInserted = (r: ReplacementRecord, from: Node, to: Node): boolean => {
+        const i = r.inserted.indexOf(from);
+        if (i === -1) return false;
+        if (applied) {
+            if (from.parentNode !== r.parent) return false;
+            r.parent.replaceChild(to, from);
+        }
+        r.inserted[i] = to;
+        return true;
+    };
+
+    const keepOnly = (kept: ReplacementRecord[]) => {
+        const keptSet = new Set(kept);
+        records.filter(r => !keptSet.has(r)).forEach(forget);
+        records = kept;
+    };
+
+    /**
+     * Records a split and performs it right away, unless replacements are
+     * currently switched off, in which case it waits for the next show().
+     */
+    const commit = (r: ReplacementRecord): boolean => {
+        r.removedText = r.removed.nodeValue || '';
+        if (applied && !applyRecord(r)) return false;
+        records.push(r);
+        index(r);
+        return true;
+    };
+
+    const hide = () => {
+        if (!applied) return;
+        const kept: ReplacementRecord[] = [];
+        for (let i = records.length - 1; i >= 0; i--) {
+            if (revertRecord(records[i])) kept.unshift(records[i]);
+        }
+        keepOnly(kept);
+        applied = false;
+        listeners.forEach(l => l(applied));
+    };
+
+    const show = () => {
+        if (applied) return;
+        keepOnly(records.filter(applyRecord));
+        applied = true;
+        listeners.forEach(l => l(applied));
+    };
+
+    const toggle = () => (applied ? hide() : show());
+
+    // Puts the original text back for one word, leaving every other replacement alone
+    const withdraw = (r: ReplacementRecord) => {
+        if (r.placeholder) return;
+        const placeholder = document.createTextNode(r.original);
+        if (swapInserted(r, r.span, placeholder)) r.placeholder = placeholder;
+    };
+
+    const reinstate = (r: ReplacementRecord) => {
+        if (!r.placeholder) return;
+        // The placeholder may have been split by a later replacement: then this spot belongs to another word
+        if (swapInserted(r, r.placeholder, r.span)) r.placeholder = undefined;
+        else forget(r);
+    };
+
+    // Withdraws a word for good: its spot drops out of the entry index and can be planned again
+    const retire = (r: ReplacementRecord) => {
+        withdraw(r);
+        forget(r);
+    };
+
+    // Spans on the page (or waiting for show()), for re-rendering after style / category changes
+    const forEachRendered = (fn: (r: ReplacementRecord) => void) => {
+        records.forEach(r => { if (!applied || r.span.isConnected || r.placeholder) fn(r); });
+    };
+
+    /**
+     * Frameworks keep references to the text nodes they rendered and update those
+     * in place, so after a split their edits land on a detached node and never show.
+     * A record whose removed node changed since the split is out of date.
+     */
+    const hasStaleWithin = (root: Node) => records.some(r => root.contains(r.parent) && r.removed.nodeValue !== r.removedText);
+
+    // Undoes every split under `root` (latest first) and forgets them, e.g. before the block is scanned again
+    const revertWithin = (root: Node) => {
+        const inside = records.filter(r => root.contains(r.parent));
+        for (let i = inside.length - 1; i >= 0; i--) {
+            const r = inside[i];
+            if (applied && revertRecord(r)) continue;
+            // Pieces were moved by the page: at least don't leave a stale word behind
+            if (r.span.isConnected) r.span.replaceWith(document.createTextNode(r.original));
+        }
+        const dropped = new Set(inside);
+        keepOnly(records.filter(r => !dropped.has(r)));
+    };
+
+    // Records whose part of the page is gone altogether
+    const prune = () => keepOnly(records.filter(r => r.parent.isConnected));
+
+    const recordsFor = (entryId: string): ReplacementRecord[] => Array.from(byEntry.get(entryId) || []);
+
+    const subscribe = (listener: (applied: boolean) => void) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    return {
+        commit, hide, show, toggle, withdraw, reinstate, retire, forEachRendered, recordsFor, subscribe,
+        hasStaleWithin, revertWithin, prune,
+        recordForSpan: (span: HTMLElement) => bySpan.get(span),
+        isApplied: () => applied
+    };
+};
+
+export type ReplacementJournal = ReturnType<typeof createReplacementJournal>;
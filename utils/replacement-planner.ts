@@ -0,0 +1,191 @@
+import { WordEntry, RichDictionaryResult } from "../types";
+import { findFuzzyMatches, findAggressiveMatches, findEnglishGlosses, createTranslationMatcher, resolveMatchConflicts, MatchSpan, ConflictDecision, FuzzyMatchTrace } from "./matching";
+import { DefinitionIndex } from "./definition-index";
+import { ChosenSense } from "./sense-scorer";
+
+/**
+ * 一个块的纯文本匹配请求，不含任何 DOM，可在 Worker 中执行。
+ */
+export interface ReplacementPlanRequest {
+    mode?: 'translate' | 'gloss'; // 'gloss': English page, annotate wordbook words in place without any translation
+    fullText: string; // Concatenated text nodes of the block
+    sourceSentences: string[];
+    transSentences: string[];
+    matchInflections: boolean;
+    aggressiveMode: boolean;
+}
+
+// Dictionary lookups already made, keyed by entry text; null: looked up and not found, so not asked for again
+export type RichDataCache = Record<string, RichDictionaryResult | null>;
+
+export const forgetMisses = (richData: RichDataCache) => {
+    Object.keys(richData).forEach(text => { if (richData[text] === null) delete richData[text]; });
+};
+
+export interface PlannedReplacement {
+    start: number; // Offsets into fullText
+    end: number;
+    text: string;
+    entryId: string;
+    score: number;
+    sense?: ChosenSense;
+}
+
+export interface ReplacementPlan {
+    replacements: PlannedReplacement[]; // Non-overlapping, sorted by start
+    missingRichData: string[]; // Aggressive candidates / ambiguous words without lookup data; fetch and plan again
+}
+
+// Words with more than one entry (several senses), per entries array
+const polysemousCache = new WeakMap<WordEntry[], Set<string>>();
+
+const getPolysemousWords = (entries: WordEntry[]): Set<string> => {
+    let words = polysemousCache.get(entries);
+    if (!words) {
+        const counts = new Map<string, number>();
+        entries.forEach(e => counts.set(e.text, (counts.get(e.text) || 0) + 1));
+        words = new Set(Array.from(counts).filter(([, n]) => n > 1).map(([text]) => text));
+        polysemousCache.set(entries, words);
+    }
+    return words;
+};
+
+const toPlanned = (s: MatchSpan): PlannedReplacement => ({ start: s.start, end: s.end, text: s.text, entryId: s.entry.id, score: s.score, sense: s.sense });
+
+// Aggressive-mode comparisons kept per candidate in a trace (highest scores first)
+const AGGRESSIVE_ATTEMPTS_PER_ENTRY = 5;
+
+export interface AggressiveAttempt {
+    entry: WordEntry;
+    segment: string;
+    definition: string;
+    score: number;
+}
+
+// planReplacements 的逐句过程记录 (预览面板的匹配诊断用)，区间偏移均相对 fullText
+export interface SentencePlanTrace {
+    source: string;
+    translation: string;
+    start: number; // Offset of the sentence in fullText
+    contextPassed: WordEntry[]; // Words (or their forms) present in the aligned translation
+    contextRejected: FuzzyMatchTrace['contextRejected'];
+    aggressive: AggressiveAttempt[];
+    aggressiveSkipped: string[]; // Candidates without dictionary data
+    decisions: ConflictDecision[];
+}
+
+const shiftSpan = <T extends MatchSpan>(span: T, by: number): T => ({ ...span, start: span.start + by, end: span.end + by });
+
+/**
+ * 替换规划：句内词库匹配 + (可选) 激进模式，最后统一做区间冲突裁决。
+ * 激进模式需要的在线词典数据由调用方提供 (richData)，缺失的词通过 missingRichData 返回。
+ * 传入 trace 时逐句记录每一步 (只多做记录，规划结果不变)。
+ */
+export const planReplacements = (
+    index: DefinitionIndex,
+    entries: WordEntry[],
+    richData: RichDataCache,
+    request: ReplacementPlanRequest,
+    trace?: SentencePlanTrace[]
+): ReplacementPlan => {
+    const { fullText, sourceSentences, transSentences, matchInflections, aggressiveMode } = request;
+    if (request.mode === 'gloss') {
+        return { replacements: findEnglishGlosses(fullText, entries, matchInflections).map(toPlanned), missingRichData: [] };
+    }
+
+    const spans: MatchSpan[] = [];
+    const missing = new Set<string>();
+    let searchCursor = 0;
+
+    sourceSentences.forEach((sent, idx) => {
+        const trans = transSentences[idx] || "";
+        const sentStart = fullText.indexOf(sent, searchCursor);
+        if (sentStart === -1) return;
+        searchCursor = sentStart + sent.length;
+
+        const sentenceTrace: SentencePlanTrace | undefined = trace && {
+            source: sent, translation: trans, start: sentStart,
+            contextPassed: [], contextRejected: [], aggressive: [], aggressiveSkipped: [], decisions: []
+        };
+        if (sentenceTrace) trace!.push(sentenceTrace);
+
+        // --- Phase 1: Standard Fuzzy Match ---
+        const polysemous = getPolysemousWords(entries);
+        const fuzzyTrace: FuzzyMatchTrace | undefined = sentenceTrace && { contextRejected: [], spans: [], decisions: [] };
+        findFuzzyMatches(sent, index, trans, matchInflections, richData, fuzzyTrace).forEach(m => {
+            spans.push(shiftSpan(m, sentStart));
+            // Dictionary meanings sharpen sense scoring for words with several entries; the caller
+            // only looks them up online in aggressive mode (cache / offline pack otherwise)
+            if (polysemous.has(m.entry.text) && !(m.entry.text in richData)) missing.add(m.entry.text);
+        });
+        if (sentenceTrace && fuzzyTrace) {
+            sentenceTrace.contextRejected = fuzzyTrace.contextRejected.map(r => ({ ...r, start: r.start + sentStart }));
+            // Losers within the sentence; the winners meet the aggressive spans in the final pass below
+            sentenceTrace.decisions = fuzzyTrace.decisions.filter(d => !d.kept).map(d => ({
+                ...d,
+                span: shiftSpan(d.span, sentStart),
+                blockedBy: d.blockedBy && shiftSpan(d.blockedBy, sentStart)
+            }));
+        }
+
+        // --- Phase 2: Aggressive Match (Experimental) ---
+        if (!aggressiveMode && !sentenceTrace) return;
+        const appearsInTranslation = createTranslationMatcher(trans);
+        const passed = entries.filter(e => appearsInTranslation(e, matchInflections));
+        if (sentenceTrace) sentenceTrace.contextPassed = passed;
+        if (!aggressiveMode) return;
+        // Deduplicate candidates by text to reduce lookups
+        const uniqueCandidates = new Map<string, WordEntry>();
+        passed.forEach(c => uniqueCandidates.set(c.text, c));
+
+        uniqueCandidates.forEach(candidate => {
+            const rich = richData[candidate.text];
+            if (!(candidate.text in richData)) missing.add(candidate.text);
+            if (!rich) {
+                sentenceTrace?.aggressiveSkipped.push(candidate.text);
+                return;
+            }
+            const tried: AggressiveAttempt[] = [];
+            const onAttempt = sentenceTrace && ((segment: string, definition: string, score: number) => {
+                tried.push({ entry: candidate, segment, definition, score });
+            });
+            findAggressiveMatches(sent, candidate, rich, onAttempt).forEach(m => {
+                let localPos = sent.indexOf(m.text);
+                while (localPos !== -1) {
+                    spans.push({
+                        start: sentStart + localPos,
+                        end: sentStart + localPos + m.text.length,
+                        text: m.text,
+                        entry: m.entry,
+                        score: m.score
+                    });
+                    localPos = sent.indexOf(m.text, localPos + 1);
+                }
+            });
+            sentenceTrace?.aggressive.push(...tried.sort((a, b) => b.score - a.score).slice(0, AGGRESSIVE_ATTEMPTS_PER_ENTRY));
+        });
+    });
+
+    const decisions: ConflictDecision[] | undefined = trace && [];
+    const replacements = resolveMatchConflicts(spans, decisions);
+    decisions?.forEach(d => {
+        trace!.find(t => d.span.start >= t.start && d.span.start < t.start + t.source.length)?.decisions.push(d);
+    });
+
+    return {
+        replacements: replacements.map(toPlanned),
+        missingRichData: Array.from(missing)
+    };
+};
+
+// Messages between the content script and entrypoints/match-worker.ts.
+// Lookups are sent once as they arrive ('richData') and kept in the worker, not with every plan.
+export type MatchWorkerRequest =
+    | { type: 'entries', entries: WordEntry[] }
+    | { type: 'richData', data: RichDataCache }
+    | { type: 'forgetMisses' } // Aggressive mode switched on: words the local lookup didn't find may be found online
+    | { type: 'plan', id: number, request: ReplacementPlanRequest };
+
+export type MatchWorkerResponse =
+    | { type: 'plan', id: number, plan: ReplacementPlan }
+    | { type: 'error', id: number, error: string };
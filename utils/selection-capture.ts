@@ -0,0 +1,137 @@
+import { DictionaryMeaningCard, RichDictionaryResult, WordEntry } from "../types";
+import { generateInflections } from "./morphology";
+import { getSameOriginFrameDocument } from "./dom-roots";
+
+/**
+ * 划词查词：读取页面 (含同源 iframe) 里的选区，判断是否值得查，
+ * 并像替换词的 captureContext 一样记录所在句子、段落与来源。
+ */
+
+export interface PageSelection {
+    text: string;
+    range: Range;
+}
+
+const SENTENCE_SPLIT = /([。！？.!?\n]+)/;
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th, dd, dt, figcaption, article, section, div';
+
+// Selection in the document or, failing that, in a same-origin frame (recursively)
+export const getActiveSelection = (doc: Document = document): PageSelection | null => {
+    const selection = doc.getSelection();
+    const text = selection?.toString().trim() || '';
+    if (selection && text && selection.rangeCount > 0) return { text, range: selection.getRangeAt(0) };
+
+    for (const frame of Array.from(doc.querySelectorAll('iframe'))) {
+        const frameDoc = getSameOriginFrameDocument(frame);
+        const found = frameDoc && getActiveSelection(frameDoc);
+        if (found) return found;
+    }
+    return null;
+};
+
+export const isChineseSelection = (text: string) => /^[\u4e00-\u9fa5]+$/.test(text);
+
+// A word or short phrase: up to five English words, or up to eight Chinese characters
+export const isLookupCandidate = (text: string) => {
+    const t = text.trim();
+    if (isChineseSelection(t)) return t.length <= 8;
+    return /^[a-zA-Z][a-zA-Z'’-]*(\s+[a-zA-Z][a-zA-Z'’-]*){0,4}$/.test(t);
+};
+
+export const findSentenceContaining = (paragraph: string, text: string): string => {
+    const parts = paragraph.split(SENTENCE_SPLIT);
+    for (let i = 0; i < parts.length; i += 2) {
+        const sentence = parts[i] + (parts[i + 1] || '');
+        if (sentence.includes(text)) return sentence.trim();
+    }
+    return '';
+};
+
+/**
+ * Page URL, pinned to the current video position on YouTube / Bilibili
+ * while a video is playing.
+ */
+export const captureSourceLocation = (): Pick<WordEntry, 'sourceUrl' | 'sourceTimestamp'> => {
+    let sourceUrl = window.location.href;
+    let sourceTimestamp = 0;
+    const video = document.querySelector('video');
+    if (video && !video.paused) {
+        sourceTimestamp = Math.floor(video.currentTime);
+        const urlObj = new URL(window.location.href);
+        if (urlObj.hostname.includes('youtube.com')) {
+            urlObj.searchParams.set('t', sourceTimestamp + 's');
+            sourceUrl = urlObj.toString();
+        } else if (urlObj.hostname.includes('bilibili.com')) {
+            // Bilibili usually uses ?t= or &t=
+            urlObj.searchParams.set('t', String(sourceTimestamp));
+            sourceUrl = urlObj.toString();
+        }
+    }
+    return { sourceUrl, sourceTimestamp };
+};
+
+/**
+ * Sentence and paragraph around a selection. In a block we translated, the
+ * source paragraph and its translation come from the block's attributes and
+ * the visible text counts as the mixed version; elsewhere the visible text is
+ * the source.
+ */
+export const captureSelectionContext = (selection: PageSelection): Partial<WordEntry> => {
+    const container = selection.range.commonAncestorContainer;
+    const start = container.nodeType === Node.ELEMENT_NODE ? container as Element : container.parentElement;
+    const translatedBlock = start?.closest('[data-lingo-source]') as HTMLElement | null;
+    const block = translatedBlock || start?.closest(BLOCK_SELECTOR) as HTMLElement | null;
+    const visible = block?.innerText.trim() || '';
+
+    let contextParagraph = visible;
+    let contextParagraphTranslation = '';
+    let mixedParagraph = '';
+    let mixedSentence = '';
+    if (translatedBlock) {
+        contextParagraph = translatedBlock.getAttribute('data-lingo-source') || '';
+        contextParagraphTranslation = translatedBlock.getAttribute('data-lingo-translation') || '';
+        mixedParagraph = visible;
+        mixedSentence = findSentenceContaining(visible, selection.text);
+    }
+
+    return {
+        contextParagraph,
+        contextParagraphTranslation,
+        mixedParagraph,
+        contextSentence: findSentenceContaining(contextParagraph, selection.text),
+        mixedSentence,
+        ...captureSourceLocation()
+    };
+};
+
+// The meaning that fits a Chinese selection best, else the first one
+export const pickMeaningCard = (result: RichDictionaryResult, selectedText: string): DictionaryMeaningCard | undefined => {
+    if (isChineseSelection(selectedText)) {
+        const matched = result.meanings.find(c => c.defCn?.includes(selectedText));
+        if (matched) return matched;
+    }
+    return result.meanings[0];
+};
+
+// Same fields the Add Word modal imports from a dictionary card
+export const buildEntryFromLookup = (result: RichDictionaryResult, card?: DictionaryMeaningCard): Partial<WordEntry> => {
+    const forms = [...new Set([...result.inflections, ...(card?.inflections || [])])];
+    return {
+        text: result.text,
+        phoneticUs: result.phoneticUs,
+        phoneticUk: result.phoneticUk,
+        translation: card?.defCn,
+        englishDefinition: card?.defEn,
+        partOfSpeech: card?.partOfSpeech,
+        inflections: forms.length > 0 ? forms : generateInflections(result.text, card?.partOfSpeech),
+        dictionaryExample: card?.example,
+        dictionaryExampleTranslation: card?.exampleTrans,
+        tags: card?.tags || [],
+        importance: card?.importance || 0,
+        cocaRank: Number(card?.cocaRank) || 0,
+        video: result.video,
+        phrases: result.phrases,
+        roots: result.roots,
+        synonyms: result.synonyms
+    };
+};
@@ -0,0 +1,119 @@
+import { WordEntry, RichDictionaryResult, DictionaryMeaningCard } from "../types";
+import { tokenizeEnglish, lemmatize, normalizePartOfSpeech } from "./morphology";
+
+/**
+ * 义项消歧：同一个英文词在词库里可能有多条不同释义 (by_word_and_meaning 合并策略)，
+ * 原文同一处命中多条时，用上下文给每条打分，让 resolveMatchConflicts 选出真正合适的义项。
+ */
+
+export interface SenseContext {
+    source: string; // Chinese sentence
+    start: number; // Matched span within `source`
+    end: number;
+    translation: string; // Aligned English sentence
+    richData?: RichDictionaryResult; // Online meanings of entry.text, when already fetched
+}
+
+// 替换处记录的义项，气泡据此展示对应释义
+export interface ChosenSense {
+    partOfSpeech: string; // Normalized: n / v / adj / adv ...
+    meaning: string;
+}
+
+const DETERMINERS = new Set(['a', 'an', 'the', 'this', 'that', 'these', 'those', 'my', 'your', 'his', 'her', 'its', 'our', 'their', 'some', 'any', 'no', 'every', 'each', 'many', 'much']);
+const VERB_LEADS = new Set(['to', 'will', 'would', 'can', 'could', 'shall', 'should', 'may', 'might', 'must', 'do', 'does', 'did', "don't", "doesn't", "didn't", "won't", "can't"]);
+const DEGREE_ADVERBS = new Set(['very', 'too', 'so', 'more', 'most', 'quite', 'rather', 'really', 'extremely', 'less', 'least']);
+
+const CN_ADJ_LEADS = ['非常', '十分', '特别', '很', '太', '更', '最', '挺', '比较'];
+const CN_VERB_LEADS = ['可以', '应该', '需要', '正在', '已经', '把', '被', '将', '要', '会', '能', '想', '去', '来'];
+const CN_NOUN_LEADS = ['一个', '这个', '那个', '一种', '一位', '这些', '那些', '个', '种', '位', '本', '条', '家', '项', '座', '张'];
+
+type PosEvidence = Map<string, number>;
+
+const addEvidence = (evidence: PosEvidence, pos: string, weight: number) => {
+    evidence.set(pos, (evidence.get(pos) || 0) + weight);
+};
+
+/**
+ * 英文译文里该词出现处的词性线索：词形 (-ed/-ing/-er/-s) 与前一个词 (the/to/very ...)。
+ */
+const englishEvidence = (entry: WordEntry, translation: string, evidence: PosEvidence) => {
+    const target = entry.text.trim().toLowerCase();
+    if (target.includes(' ')) return; // Phrases carry no useful single-word cues
+    const tokens = tokenizeEnglish(translation);
+
+    tokens.forEach((token, i) => {
+        const hit = lemmatize(token).find(c => c.lemma === target);
+        if (!hit) return;
+        if (hit.kind === 'verb') addEvidence(evidence, 'v', 1);
+        if (hit.kind === 'comparative') addEvidence(evidence, 'adj', 1);
+        if (hit.kind === 'plural') addEvidence(evidence, 'n', 0.5); // Could also be third person singular
+        if (token.endsWith('ly') && !target.endsWith('ly')) addEvidence(evidence, 'adv', 1);
+
+        const prev = tokens[i - 1];
+        if (!prev) return;
+        if (DETERMINERS.has(prev)) { addEvidence(evidence, 'n', 0.7); addEvidence(evidence, 'adj', 0.3); }
+        if (VERB_LEADS.has(prev)) addEvidence(evidence, 'v', 1);
+        if (DEGREE_ADVERBS.has(prev)) { addEvidence(evidence, 'adj', 0.7); addEvidence(evidence, 'adv', 0.3); }
+    });
+};
+
+/**
+ * 中文原文命中处前后的词性线索："很X" 形容词，"X地" 副词，"X了" 动词，"一个X" 名词。
+ */
+const chineseEvidence = (ctx: SenseContext, evidence: PosEvidence) => {
+    const before = ctx.source.slice(Math.max(0, ctx.start - 2), ctx.start);
+    const after = ctx.source.charAt(ctx.end);
+
+    if (CN_ADJ_LEADS.some(w => before.endsWith(w))) addEvidence(evidence, 'adj', 1);
+    if (CN_VERB_LEADS.some(w => before.endsWith(w))) addEvidence(evidence, 'v', 0.7);
+    if (CN_NOUN_LEADS.some(w => before.endsWith(w))) addEvidence(evidence, 'n', 1);
+    if (after === '地') addEvidence(evidence, 'adv', 0.7);
+    if (after === '的') addEvidence(evidence, 'adj', 0.5);
+    if ('了着过'.includes(after) && after) addEvidence(evidence, 'v', 0.7);
+};
+
+/**
+ * 在线释义里包含命中中文的那张卡片 (例如 "bank" 的 "n. 河岸" 卡片)。
+ */
+const findMeaningCard = (richData: RichDictionaryResult | undefined, matched: string): DictionaryMeaningCard | undefined => {
+    if (!richData) return undefined;
+    const cards = [...richData.meanings, ...(richData.ecMeanings || []), ...(richData.expandEcMeanings || [])];
+    return cards.find(c => c.defCn && c.defCn.split(/[,;，；\s]+/).some(d => d.replace(/^[a-z]+\.\s*/i, '') === matched))
+        || cards.find(c => c.defCn?.includes(matched));
+};
+
+const contentWords = (text?: string) => new Set(tokenizeEnglish(text || '').filter(t => t.length > 3));
+
+/**
+ * 给一次命中的 (词条, 释义) 打分，范围 0-1：
+ * - 释义排序 (越靠前越常用)
+ * - 词性吻合：词条词性 (缺失时取在线释义卡片的词性) 对比中英文上下文线索
+ * - 语境重合：词条的例句/英文释义与当前英文句子的实词重合度
+ */
+export const scoreSense = (entry: WordEntry, defIndex: number, ctx: SenseContext): { score: number, sense: ChosenSense } => {
+    const matched = ctx.source.slice(ctx.start, ctx.end);
+    const card = findMeaningCard(ctx.richData, matched);
+    const pos = normalizePartOfSpeech(entry.partOfSpeech) || (card ? normalizePartOfSpeech(card.partOfSpeech || card.defCn) : '');
+
+    const rankScore = Math.max(0.5, 1 - defIndex * 0.1);
+
+    const evidence: PosEvidence = new Map();
+    englishEvidence(entry, ctx.translation, evidence);
+    chineseEvidence(ctx, evidence);
+    const totalEvidence = Array.from(evidence.values()).reduce((a, b) => a + b, 0);
+    // No part of speech or no cues: neutral
+    const posScore = pos && totalEvidence > 0 ? (evidence.get(pos) || 0) / totalEvidence : 0.5;
+
+    const sentenceWords = contentWords(ctx.translation);
+    const entryWords = contentWords([entry.contextSentence, entry.englishDefinition, entry.dictionaryExample, card?.defEn, card?.example].join(' '));
+    entryWords.delete(entry.text.trim().toLowerCase()); // Every sense of the word shares it
+    let shared = 0;
+    entryWords.forEach(w => { if (sentenceWords.has(w)) shared++; });
+    const overlapScore = entryWords.size > 0 ? Math.min(1, shared / Math.min(entryWords.size, 5)) : 0;
+
+    return {
+        score: 0.4 * rankScore + 0.4 * posScore + 0.2 * overlapScore,
+        sense: { partOfSpeech: pos, meaning: card?.defCn?.replace(/^[a-z]+\.\s*/i, '') || matched }
+    };
+};
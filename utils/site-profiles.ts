@@ -0,0 +1,157 @@
+import { AutoTranslateConfig, SiteOverrides, SiteProfile, StyleConfig, WordCategory, WordEntry } from "../types";
+
+/**
+ * 站点规则：按域名 / 通配符匹配当前页面，叠加覆盖全局设置。
+ *
+ * 模式写法：
+ * - "zhihu.com"          该域名及其所有子域名
+ * - "*.qq.com"           通配符只匹配域名
+ * - "example.com/news/*" 含 "/" 时匹配 域名 + 路径
+ * - "/^evil\.(com|net)$/" 斜杠包裹的是正则，对域名测试 (不区分大小写)
+ * 多条规则同时命中时，越具体 (去掉 * 后越长) 的越后合并，优先级越高。
+ */
+
+const globToRegExp = (glob: string) => {
+    const escaped = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${escaped}$`, 'i');
+};
+
+const isRegexPattern = (pattern: string) => pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+
+const toRegExp = (source: string): RegExp | null => {
+    try {
+        return new RegExp(source, 'i');
+    } catch {
+        return null;
+    }
+};
+
+export const matchesSitePattern = (pattern: string, url: URL): boolean => {
+    const trimmed = pattern.trim();
+    const host = url.hostname.toLowerCase();
+    if (isRegexPattern(trimmed)) return !!toRegExp(trimmed.slice(1, -1))?.test(host);
+
+    const p = trimmed.toLowerCase().replace(/^[a-z]+:\/\//, '');
+    if (!p) return false;
+
+    if (p.includes('/')) {
+        // A trailing "/*" also covers the bare path: "example.com/news/*" matches "example.com/news"
+        const target = `${host}${url.pathname}`;
+        return globToRegExp(p).test(target) || (p.endsWith('/*') && globToRegExp(p.slice(0, -2)).test(target));
+    }
+    if (p.includes('*')) return globToRegExp(p).test(host);
+    return host === p || host.endsWith(`.${p}`);
+};
+
+const specificity = (pattern: string) => pattern.replace(/\*/g, '').length;
+
+/**
+ * Every profile matching the URL, merged from least to most specific.
+ */
+export const resolveSiteOverrides = (profiles: SiteProfile[] | undefined, url: URL): SiteOverrides => {
+    return (profiles || [])
+        .map((profile, order) => ({ profile, order }))
+        .filter(({ profile }) => matchesSitePattern(profile.pattern, url))
+        .sort((a, b) => specificity(a.profile.pattern) - specificity(b.profile.pattern) || a.order - b.order)
+        .reduce<SiteOverrides>((merged, { profile }) => {
+            const defined = Object.entries(profile.overrides).filter(([, v]) => v !== undefined && v !== '');
+            return { ...merged, ...Object.fromEntries(defined) };
+        }, {});
+};
+
+// The global config as seen by this site
+export const applySiteOverrides = (config: AutoTranslateConfig, overrides: SiteOverrides): AutoTranslateConfig => ({
+    ...config,
+    enabled: overrides.enabled ?? config.enabled,
+    bilingualMode: overrides.bilingualMode ?? config.bilingualMode,
+    translateWholePage: overrides.translateWholePage ?? config.translateWholePage,
+});
+
+export const applySiteDensity = (styles: Record<WordCategory, StyleConfig>, overrides: SiteOverrides): Record<WordCategory, StyleConfig> => {
+    if (overrides.densityPercent === undefined) return styles;
+    const value = Math.max(0, Math.min(100, overrides.densityPercent));
+    return Object.fromEntries(
+        Object.entries(styles).map(([category, style]) => [category, { ...style, densityMode: 'percent', densityValue: value }])
+    ) as Record<WordCategory, StyleConfig>;
+};
+
+// Words without a scenario always take part
+export const isInSiteScenarios = (entry: WordEntry, overrides: SiteOverrides) => {
+    return !overrides.scenarioIds?.length || !entry.scenarioId || overrides.scenarioIds.includes(entry.scenarioId);
+};
+
+// A user-typed selector list, or null when it wouldn't parse
+export const toValidSelector = (selectors?: string): string | null => {
+    const trimmed = selectors?.trim();
+    if (!trimmed) return null;
+    try {
+        document.createDocumentFragment().querySelector(trimmed);
+        return trimmed;
+    } catch {
+        console.warn('ContextLingo: Ignoring invalid site selector', trimmed);
+        return null;
+    }
+};
+
+/**
+ * Old blacklist / whitelist entries were unanchored regexes tested against the
+ * hostname ("baidu.com" also hit "baidu.com.hk", ".*\.qq\.com$"). Ones made of
+ * host characters, dots and ".*" become the equivalent glob; anything else
+ * (alternation, character classes, ...) is kept as a "/regex/" pattern.
+ * Returns null for entries that never could match.
+ */
+const legacyRegexToPattern = (regex: string): string | null => {
+    const source = regex.trim();
+    if (!source || !toRegExp(source)) return null;
+
+    const simple = source.match(/^(\^?)((?:[a-z0-9-]|\\\.|\.\*|\.(?![*+?{]))+)(\$?)$/i);
+    if (!simple) return `/${source}/`;
+    const [, start, body, end] = simple;
+    // An unescaped "." between host characters is the dot the user meant
+    const glob = `${start ? '' : '*'}${body.replace(/\.\*/g, '*').replace(/\\?\./g, '.')}${end ? '' : '*'}`;
+    // Without a "*" the glob would read as "host and its subdomains", wider than the anchored regex
+    return glob.includes('*') ? glob.replace(/\*+/g, '*').toLowerCase() : `/${source}/`;
+};
+
+/**
+ * Converts the legacy regex lists into site profiles. Blacklist entries switch
+ * the site off; a whitelist entry only ever cancelled a blacklist match, so it
+ * lifts the "off" of a blacklist profile with the same pattern and otherwise
+ * becomes a profile that overrides nothing. Entries that can't be kept (empty, invalid regex)
+ * go to droppedLegacySiteRules so the settings page can list them.
+ * Returns the same object when there is nothing to do.
+ */
+export const migrateLegacySiteLists = (config: AutoTranslateConfig): AutoTranslateConfig => {
+    if (!config.blacklist && !config.whitelist && config.siteProfiles) return config;
+
+    const profiles = [...(config.siteProfiles || [])];
+    const dropped: string[] = [];
+    const add = (regex: string, whitelisted: boolean) => {
+        const pattern = legacyRegexToPattern(regex);
+        if (!pattern) {
+            if (regex.trim()) dropped.push(regex);
+            return;
+        }
+        const existing = profiles.findIndex(p => p.pattern === pattern);
+        if (existing !== -1) {
+            // Listed on both: the whitelist used to win, which leaves the global setting in charge
+            if (whitelisted) {
+                const { enabled, ...overrides } = profiles[existing].overrides;
+                profiles[existing] = { ...profiles[existing], overrides };
+            }
+            return;
+        }
+        profiles.push({ id: `${Date.now().toString(36)}-${profiles.length}`, pattern, overrides: whitelisted ? {} : { enabled: false } });
+    };
+    (config.blacklist || []).forEach(r => add(r, false));
+    (config.whitelist || []).forEach(r => add(r, true));
+
+    if (dropped.length > 0) console.warn('ContextLingo: Dropped legacy site rules that are not valid regexes', dropped);
+
+    const { blacklist, whitelist, ...rest } = config;
+    return {
+        ...rest,
+        siteProfiles: profiles,
+        ...(dropped.length > 0 && { droppedLegacySiteRules: [...(config.droppedLegacySiteRules || []), ...dropped] })
+    };
+};
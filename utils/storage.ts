@@ -1,6 +1,6 @@
 
 import { storage } from 'wxt/storage';
-import { WordEntry, WordCategory, PageWidgetConfig, AutoTranslateConfig, Scenario, TranslationEngine, AnkiConfig, StyleConfig, OriginalTextConfig, WordInteractionConfig, DictionaryEngine } from '../types';
+import { WordEntry, WordCategory, PageWidgetConfig, AutoTranslateConfig, Scenario, TranslationEngine, EngineHealth, EngineUsageLedger, TranslationCacheStats, AnkiConfig, StyleConfig, OriginalTextConfig, WordInteractionConfig, DictionaryEngine, OfflineDictionaryInfo } from '../types';
 import { DEFAULT_PAGE_WIDGET, DEFAULT_AUTO_TRANSLATE, INITIAL_SCENARIOS, INITIAL_ENGINES, DEFAULT_ANKI_CONFIG, DEFAULT_STYLES, DEFAULT_ORIGINAL_TEXT_CONFIG, DEFAULT_WORD_INTERACTION, INITIAL_DICTIONARIES } from '../constants';
 
 // Define storage keys and default values
@@ -32,10 +32,35 @@ export const enginesStorage = storage.defineItem<TranslationEngine[]>('local:eng
   defaultValue: INITIAL_ENGINES,
 });
 
+// Written by the background failover chain, read by EnginesSection
+export const engineHealthStorage = storage.defineItem<Record<string, EngineHealth>>('local:engineHealth', {
+  defaultValue: {},
+});
+
+// Characters sent per engine per day, written by the background usage meter
+export const engineUsageStorage = storage.defineItem<EngineUsageLedger>('local:engineUsage', {
+  defaultValue: {},
+});
+
+// Hit/miss counters for the background IndexedDB translation cache
+export const translationCacheStatsStorage = storage.defineItem<TranslationCacheStats>('local:translationCacheStats', {
+  defaultValue: { hits: 0, misses: 0, since: 0 },
+});
+
+// How many times each entry has been rendered on pages (entry id -> count); density prefers the least seen
+export const wordExposureStorage = storage.defineItem<Record<string, number>>('local:wordExposure', {
+  defaultValue: {},
+});
+
 export const dictionariesStorage = storage.defineItem<DictionaryEngine[]>('local:dictionaries', {
   defaultValue: INITIAL_DICTIONARIES,
 });
 
+// Metadata of the imported offline dictionary pack (the words themselves live in IndexedDB)
+export const offlineDictionaryInfoStorage = storage.defineItem<OfflineDictionaryInfo>('local:offlineDictionaryInfo', {
+  defaultValue: { entries: 0, importedAt: 0, fileName: '' },
+});
+
 export const ankiConfigStorage = storage.defineItem<AnkiConfig>('local:ankiConfig', {
   defaultValue: DEFAULT_ANKI_CONFIG,
 });
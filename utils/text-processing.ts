@@ -32,3 +32,25 @@ export const splitTextIntoSentences = (text: string): string[] => {
 export const normalizeEnglishText = (text: string): string => {
     return text.toLowerCase().replace(/[.,/#!$%^&*;:{}=\-_`~()]/g, " ");
 };
+
+/**
+ * 批量翻译时用于拼接句子的分隔符
+ * (仅用于不支持逐句对齐输出的引擎)
+ */
+export const SENTENCE_DELIMITER = " ||| ";
+
+export const splitByDelimiter = (text: string): string[] => {
+    return text.split(/\s*\|\|\|\s*/);
+};
+
+/**
+ * 文本指纹 (FNV-1a 32 位 + 长度)，用于判断段落内容是否已被页面改写
+ */
+export const hashText = (text: string): string => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return `${(h >>> 0).toString(36)}:${text.length}`;
+};
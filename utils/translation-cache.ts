@@ -0,0 +1,197 @@
+import { TranslationEngine, TranslationCacheStats } from "../types";
+import { getHash } from "./crypto";
+import { translationCacheStatsStorage } from "./storage";
+import { translateWithFailover, FailoverRequest } from "./engine-health";
+import { isEngineSupported, TranslationResult } from "./api";
+
+const DB_NAME = 'context-lingo-cache';
+const DB_VERSION = 1;
+const STORE = 'translations';
+
+// LRU cap: roughly 10-20MB of Chinese sentences + translations
+const MAX_ENTRIES = 20000;
+// Evict a little more than needed so we don't run eviction on every write
+const EVICT_BATCH = 500;
+
+interface CachedTranslation {
+    key: string;
+    engineId: string;
+    target: string;
+    translation: string;
+    lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE)) {
+                    const store = db.createObjectStore(STORE, { keyPath: 'key' });
+                    store.createIndex('lastAccess', 'lastAccess');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const buildKey = async (engineId: string, target: string, sentence: string) => {
+    return `${engineId}:${target}:${await getHash(sentence.trim())}`;
+};
+
+/**
+ * Looks every sentence up under each engine id (in priority order) and
+ * returns the first hit per sentence. Hits get their lastAccess bumped.
+ */
+const lookupSentences = async (engineIds: string[], target: string, sentences: string[]): Promise<(string | null)[]> => {
+    const db = await openDb();
+    const keysPerSentence = await Promise.all(sentences.map(sent => Promise.all(engineIds.map(id => buildKey(id, target, sent)))));
+
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const now = Date.now();
+
+    const results = await Promise.all(keysPerSentence.map(async keys => {
+        for (const key of keys) {
+            const hit = await promisify(store.get(key)) as CachedTranslation | undefined;
+            if (hit) {
+                store.put({ ...hit, lastAccess: now });
+                return hit.translation;
+            }
+        }
+        return null;
+    }));
+
+    return results;
+};
+
+const storeSentences = async (engineId: string, target: string, pairs: { source: string, translation: string }[]) => {
+    if (pairs.length === 0) return;
+    const db = await openDb();
+    const keys = await Promise.all(pairs.map(p => buildKey(engineId, target, p.source)));
+
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const now = Date.now();
+    pairs.forEach((p, idx) => {
+        store.put({ key: keys[idx], engineId, target, translation: p.translation, lastAccess: now } as CachedTranslation);
+    });
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+
+    await evictIfNeeded();
+};
+
+const evictIfNeeded = async () => {
+    const db = await openDb();
+    const count = await promisify(db.transaction(STORE).objectStore(STORE).count());
+    if (count <= MAX_ENTRIES) return;
+
+    let toDelete = count - MAX_ENTRIES + EVICT_BATCH;
+    const tx = db.transaction(STORE, 'readwrite');
+    const cursorRequest = tx.objectStore(STORE).index('lastAccess').openCursor();
+    await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || toDelete <= 0) { resolve(); return; }
+            cursor.delete();
+            toDelete--;
+            cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+};
+
+// Serialize read-modify-write cycles so parallel batches don't drop each other's counts
+let pendingStatsWrite: Promise<void> = Promise.resolve();
+
+const updateStats = (updater: (stats: TranslationCacheStats) => TranslationCacheStats): Promise<void> => {
+    pendingStatsWrite = pendingStatsWrite.then(async () => {
+        const stats = await translationCacheStatsStorage.getValue();
+        await translationCacheStatsStorage.setValue(updater(stats));
+    }).catch(e => console.warn('ContextLingo: Failed to update translation cache stats', e));
+    return pendingStatsWrite;
+};
+
+const recordStats = (hits: number, misses: number) => updateStats(stats => ({
+    ...stats,
+    hits: stats.hits + hits,
+    misses: stats.misses + misses,
+}));
+
+export const getTranslationCacheStats = async (): Promise<TranslationCacheStats & { entries: number }> => {
+    const db = await openDb();
+    const entries = await promisify(db.transaction(STORE).objectStore(STORE).count());
+    const stats = await translationCacheStatsStorage.getValue();
+    return { ...stats, entries };
+};
+
+export const clearTranslationCache = async () => {
+    const db = await openDb();
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+    await updateStats(() => ({ hits: 0, misses: 0, since: Date.now() }));
+};
+
+/**
+ * Cache-aware wrapper around translateWithFailover.
+ * Only sentences missing from the cache are sent to the engines; the result
+ * always carries one translation per input sentence.
+ */
+export const translateWithCache = async (engines: TranslationEngine[], request: FailoverRequest & { sentences: string[] }): Promise<TranslationResult> => {
+    const { sentences, target } = request;
+    const engineIds = engines.filter(e => e.isEnabled && isEngineSupported(e)).map(e => e.id);
+
+    let cached: (string | null)[] = sentences.map(() => null);
+    try {
+        cached = await lookupSentences(engineIds, target, sentences);
+    } catch (e) {
+        console.warn('ContextLingo: Translation cache unavailable', e);
+    }
+
+    const missingIndexes = sentences.map((_, idx) => idx).filter(idx => cached[idx] === null);
+    // Stats are best-effort: a storage failure is logged and never fails the translation
+    recordStats(sentences.length - missingIndexes.length, missingIndexes.length);
+
+    if (missingIndexes.length === 0) {
+        const merged = cached as string[];
+        return { text: merged.join(' '), engineId: 'cache', sentences: merged };
+    }
+
+    const missingSentences = missingIndexes.map(idx => sentences[idx]);
+    const result = await translateWithFailover(engines, {
+        text: missingSentences.join(' '),
+        sentences: missingSentences,
+        target,
+    });
+
+    const fresh = result.sentences || [];
+    // Only cache when alignment succeeded (empty items are failed single-sentence retries)
+    if (fresh.length === missingSentences.length) {
+        const pairs = missingSentences.map((source, idx) => ({ source, translation: fresh[idx] })).filter(p => p.translation);
+        storeSentences(result.engineId, target, pairs)
+            .catch(e => console.warn('ContextLingo: Failed to write translation cache', e));
+    }
+
+    const merged = sentences.map((_, idx) => cached[idx] ?? '');
+    missingIndexes.forEach((sentIdx, idx) => { merged[sentIdx] = fresh[idx] || ''; });
+
+    return { text: merged.join(' '), engineId: result.engineId, sentences: merged };
+};
@@ -12,7 +12,27 @@ export default defineConfig({
       "https://*.tencentcloudapi.com/*",
       "https://translation.googleapis.com/*",
       "https://api-free.deepl.com/*",
-      "https://dict.youdao.com/*"
+      "https://api.deepl.com/*",
+      "https://fanyi-api.baidu.com/*",
+      "https://translate.volcengineapi.com/*",
+      "https://ntrans.xfyun.cn/*",
+      "https://api.openai.com/*",
+      "https://generativelanguage.googleapis.com/*",
+      "http://localhost/*",
+      "http://127.0.0.1/*",
+      "https://dict.youdao.com/*",
+      "https://dict-co.iciba.com/*",
+      "https://api.dictionaryapi.dev/*",
+      "https://en.wiktionary.org/*"
+    ],
+    // Other OpenAI-compatible base URLs, granted per origin from the engine settings
+    optional_host_permissions: ['*://*/*'],
+    // The content script starts the match worker from this bundle (see utils/match-worker-client.ts)
+    web_accessible_resources: [
+      {
+        resources: ['match-worker.js'],
+        matches: ['<all_urls>']
+      }
     ],
     action: {
       default_title: '打开 Re-Word 设置'
@@ -24,6 +44,13 @@ export default defineConfig({
           "mac": "Alt+T"
         },
         "description": "开始当前页面翻译替换"
+      },
+      "toggle-replacements": {
+        "suggested_key": {
+          "default": "Alt+R",
+          "mac": "Alt+R"
+        },
+        "description": "还原原文 / 重新显示替换"
       }
     }
   },